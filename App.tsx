@@ -1,42 +1,477 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Navbar } from './components/Navbar';
 import { Report } from './pages/Report';
 import { Directory } from './pages/Directory';
 import { Scan } from './pages/Scan';
-import { AppView, Person } from './types';
+import { Identify } from './pages/Identify';
+import { CaseDetail } from './pages/CaseDetail';
+import { Review } from './pages/Review';
+import { Home } from './pages/Home';
+import { MapView } from './pages/MapView';
+import { Cameras } from './pages/Cameras';
+import { Sessions } from './pages/Sessions';
+import { Settings } from './pages/Settings';
+import { Login } from './pages/Login';
+import { Users } from './pages/Users';
+import { AppView, Person, MatchCandidate, ScanSession, CameraSource, SessionLogEntry, UserAccount, CaseStatus } from './types';
+import { createPersonRepository } from './services/personRepository';
+import { createRecordStore } from './services/recordStore';
+import { STORES } from './services/db';
+import { createAuditLog, createLogEntry } from './services/auditLog';
+import { createEvidence, createEvidenceStore } from './services/evidence';
+import { ImportMerge, applyImportedRecord } from './services/caseTransfer';
+import { DEFAULT_POSTER_SETTINGS, PosterSettings } from './services/casePdf';
+import { DEFAULT_MATCH_POLICY, MatchPolicy } from './services/matchPolicy';
+import { SETTINGS_KEYS, loadSettings, saveSettings } from './services/settings';
+import { appendEvents, createCaseEvent, diffPerson, stampEvents } from './services/caseTimeline';
+import { StatusTransitionError, checkTransition, transitionStatus } from './services/caseStatus';
+import { mergeReport } from './services/duplicates';
+import {
+  NewAccount, Permission, ROLE_LABELS, actorOf, assertAdminRemains, authenticate, can, canView, createAccount,
+  endSession, invalidatesSession, restoreSession, saveSession, setPassword, startSession,
+} from './services/auth';
+
+const personRepository = createPersonRepository();
+const candidateStore = createRecordStore<MatchCandidate>(STORES.CANDIDATES);
+const sessionStore = createRecordStore<ScanSession>(STORES.SESSIONS);
+const cameraStore = createRecordStore<CameraSource>(STORES.CAMERAS);
+const auditLog = createAuditLog();
+const evidenceStore = createEvidenceStore();
+const userStore = createRecordStore<UserAccount>(STORES.USERS);
 
 const App: React.FC = () => {
-  const [currentView, setView] = useState<AppView>(AppView.SCAN);
+  const [currentView, setView] = useState<AppView>(AppView.HOME);
   const [people, setPeople] = useState<Person[]>([]);
+  const [candidates, setCandidates] = useState<MatchCandidate[]>([]);
+  const [sessions, setSessions] = useState<ScanSession[]>([]);
+  const [cameras, setCameras] = useState<CameraSource[]>([]);
+  const [matchPolicy, setMatchPolicy] = useState<MatchPolicy>(DEFAULT_MATCH_POLICY);
+  const [posterSettings, setPosterSettings] = useState<PosterSettings>(DEFAULT_POSTER_SETTINGS);
+  const [selectedPersonId, setSelectedPersonId] = useState<string | null>(null);
+  const [users, setUsers] = useState<UserAccount[] | null>(null); // null until loaded
+  const [usersFailed, setUsersFailed] = useState(false);
+  const [currentUser, setCurrentUser] = useState<UserAccount | null>(null);
+
+  // A failed read must not look like an empty store, which would offer first-run admin setup
+  const loadUsers = () => {
+    setUsersFailed(false);
+    userStore.getAll()
+      .then(all => {
+        setUsers(all);
+        // Stay signed in across reloads of the same tab
+        const restored = restoreSession(all);
+        if (restored) setCurrentUser(restored);
+      })
+      .catch(err => {
+        console.error("Failed to load user accounts:", err);
+        setUsersFailed(true);
+      });
+  };
+
+  // Hydrate the registry from storage on first load
+  useEffect(() => {
+    loadUsers();
+    personRepository.getAll()
+      .then(all => {
+        setPeople(all);
+        // Poster QR codes link to #case/<id>
+        const linked = /^#case\/(.+)$/.exec(window.location.hash);
+        if (linked && all.some(p => p.id === linked[1])) {
+          setSelectedPersonId(linked[1]);
+          setView(AppView.CASE_DETAIL);
+        }
+      })
+      .catch(err => console.error("Failed to load registry:", err));
+    candidateStore.getAll()
+      .then(setCandidates)
+      .catch(err => console.error("Failed to load review queue:", err));
+    sessionStore.getAll()
+      .then(setSessions)
+      .catch(err => console.error("Failed to load scan history:", err));
+    cameraStore.getAll()
+      .then(all => setCameras(all.sort((a, b) => a.createdAt.localeCompare(b.createdAt))))
+      .catch(err => console.error("Failed to load camera registry:", err));
+    loadSettings(SETTINGS_KEYS.MATCH_POLICY, DEFAULT_MATCH_POLICY)
+      .then(setMatchPolicy)
+      .catch(err => console.error("Failed to load match policy:", err));
+    loadSettings(SETTINGS_KEYS.POSTER, DEFAULT_POSTER_SETTINGS)
+      .then(setPosterSettings)
+      .catch(err => console.error("Failed to load poster settings:", err));
+  }, []);
+
+  // Mutating handlers check again: hiding a control is a convenience, not the authorization
+  const authorize = (permission: Permission): boolean => {
+    if (can(currentUser, permission)) return true;
+    alert(`Your role (${currentUser ? ROLE_LABELS[currentUser.role] : 'signed out'}) is not allowed to do that.`);
+    return false;
+  };
+
+  // Credits timeline events from index `since` onwards to the signed-in user
+  const stamp = (person: Person, since: number) =>
+    currentUser ? stampEvents(person, actorOf(currentUser), since) : person;
+
+  const handleSignIn = async (username: string, password: string) => {
+    const user = await userStore.put(startSession(await authenticate(users || [], username, password)));
+    setUsers(prev => (prev || []).map(u => u.id === user.id ? user : u));
+    saveSession(user);
+    setCurrentUser(user);
+  };
+
+  const handleSignOut = () => {
+    if (currentUser) {
+      const account = endSession(currentUser);
+      userStore.put(account).catch(err => console.error("Failed to end session:", err));
+      setUsers(prev => (prev || []).map(u => u.id === account.id ? account : u));
+    }
+    saveSession(null);
+    setCurrentUser(null);
+    setView(AppView.HOME);
+  };
+
+  // First run only: the login screen creates an administrator when no accounts exist
+  const handleCreateAdmin = async (username: string, displayName: string, password: string) => {
+    if (!users || users.length) return;
+    const admin = await userStore.put(startSession(await createAccount({ username, displayName, password, role: 'ADMIN' }, [])));
+    setUsers([admin]);
+    saveSession(admin);
+    setCurrentUser(admin);
+  };
+
+  // Account changes reject with AccountError so the Users page can show why
+  const handleCreateUser = async (input: NewAccount) => {
+    if (!authorize('MANAGE_USERS') || !users) return;
+    const account = await userStore.put(await createAccount(input, users));
+    setUsers(prev => [...(prev || []), account]);
+  };
+
+  const handleUpdateUser = async (account: UserAccount) => {
+    if (!authorize('MANAGE_USERS') || !users) return;
+    assertAdminRemains(users, account);
+    const previous = users.find(u => u.id === account.id);
+    const self = account.id === currentUser?.id;
+    // Other tabs of a changed account sign out on reload; the admin making the change stays signed in here
+    if (previous && invalidatesSession(previous, account)) account = self ? startSession(account) : endSession(account);
+    await userStore.put(account);
+    setUsers(prev => (prev || []).map(u => u.id === account.id ? account : u));
+    if (self) {
+      saveSession(account);
+      setCurrentUser(account);
+    }
+  };
+
+  const handleResetPassword = async (userId: string, password: string) => {
+    const account = users?.find(u => u.id === userId);
+    if (!account) return;
+    await handleUpdateUser(await setPassword(account, password));
+  };
+
+  const handleAddPerson = async (person: Person) => {
+    if (!authorize('CREATE_CASE')) return;
+    person = stamp(person, 0);
+    try {
+      await personRepository.put(person);
+      setPeople(prev => [person, ...prev]);
+      setView(AppView.DIRECTORY);
+    } catch (err) {
+      console.error("Failed to save report:", err);
+      alert("Could not save the report. Please try again.");
+    }
+  };
+
+  // Merging only adds to a case (photo, blank fields, a timeline note), so filing rights are enough
+  const handleMergeReport = async (existingId: string, report: Person) => {
+    if (!authorize('CREATE_CASE')) return;
+    await updatePerson(existingId, current => mergeReport(current, report));
+    handleOpenCase(existingId);
+  };
+
+  // Imported records are written one by one so a failure part-way keeps what was saved
+  const handleImport = async ({ fileName, added, replaced }: ImportMerge) => {
+    if (!authorize('IMPORT_CASES')) return;
+    const saved: Person[] = [];
+    try {
+      // Only the import note is this user's; the rest of an imported history came with the file
+      for (const person of added) saved.push(await personRepository.put(stamp(person, person.timeline.length - 1)));
+    } catch (err) {
+      console.error("Failed to import records:", err);
+      alert(`Import stopped after ${saved.length} of ${added.length} new records.`);
+    }
+    setPeople(prev => [...saved, ...prev].sort((a, b) => b.reportedAt.localeCompare(a.reportedAt)));
+    for (const person of replaced) await updatePerson(person.id, current => applyImportedRecord(current, person, fileName));
+  };
+
+  // Persists a change to one record and mirrors it into local state; new events are credited to the signed-in user
+  const updatePerson = async (id: string, updater: (person: Person) => Person) => {
+    try {
+      const updated = await personRepository.update(id, current => stamp(updater(current), current.timeline.length));
+      if (updated) setPeople(prev => prev.map(p => p.id === id ? updated : p));
+    } catch (err) {
+      console.error("Failed to update record:", err);
+      // The stored record moved on since this screen last saw it
+      if (err instanceof StatusTransitionError) alert(err.message);
+    }
+  };
+
+  // AI hit from Scan: queue it for review, and flag the case as SIGHTED unless the
+  // match policy only considered it worth a look
+  const handleMatchCandidate = async (candidate: MatchCandidate) => {
+    if (!authorize('RUN_SCAN')) return;
+    candidate = { ...candidate, raisedBy: currentUser ? actorOf(currentUser) : undefined };
+    try {
+      await candidateStore.put(candidate);
+      setCandidates(prev => [...prev, candidate]);
+    } catch (err) {
+      console.error("Failed to queue candidate:", err);
+      return;
+    }
+
+    // Saved before the case is updated so the case page finds it when it refreshes
+    try {
+      await evidenceStore.save(await createEvidence(candidate));
+    } catch (err) {
+      console.error("Failed to save evidence:", err);
+    }
 
-  const handleAddPerson = (person: Person) => {
-    setPeople([person, ...people]);
-    setView(AppView.DIRECTORY);
+    const flag = candidate.tier !== 'REVIEW';
+    const confidence = `${candidate.confidence}%${flag ? '' : ', low confidence'}`;
+    await updatePerson(candidate.personId, person => {
+      const next = appendEvents(
+        person,
+        createCaseEvent('SCAN_HIT', `AI sighting at ${candidate.sourceLabel ? `${candidate.sourceLabel}, ` : ''}${candidate.locationContext} (${confidence}) - pending review`, candidate.explanation)
+      );
+      return flag && person.status === 'MISSING' ? transitionStatus(next, 'SIGHTED') : next;
+    });
   };
 
-  const handleUpdateStatus = (id: string, status: 'FOUND') => {
-    setPeople(prev => prev.map(p => p.id === id ? { ...p, status } : p));
+  const handleReviewDecision = async (candidateId: string, decision: 'CONFIRMED' | 'REJECTED', note: string) => {
+    if (!authorize('REVIEW_MATCH')) return;
+    const candidate = candidates.find(c => c.id === candidateId);
+    if (!candidate || candidate.status !== 'PENDING') return;
+
+    const decided: MatchCandidate = {
+      ...candidate,
+      status: decision,
+      decidedAt: new Date().toISOString(),
+      decisionNote: note || undefined,
+      decidedBy: currentUser ? actorOf(currentUser) : undefined,
+    };
+    try {
+      await candidateStore.put(decided);
+    } catch (err) {
+      console.error("Failed to record decision:", err);
+      return;
+    }
+    const remaining = candidates.map(c => c.id === candidateId ? decided : c);
+    setCandidates(remaining);
+
+    const summary = `Operator ${decision === 'CONFIRMED' ? 'confirmed' : 'rejected'} AI sighting at ${candidate.locationContext}`;
+    if (candidate.sessionId) {
+      const name = people.find(p => p.id === candidate.personId)?.name || 'Unknown';
+      handleLogEntry(createLogEntry(candidate.sessionId, 'OPERATOR', `${summary} - ${name}${note ? `: "${note}"` : ''}`, {
+        frameLabel: candidate.locationContext,
+        candidateId: candidate.id,
+      }));
+    }
+    const stillPending = remaining.some(c => c.personId === candidate.personId && c.status === 'PENDING');
+
+    await updatePerson(candidate.personId, person => {
+      const next = appendEvents(person, createCaseEvent('SCAN_HIT', summary, note || undefined));
+      // A confirmed hit closes the case unless it was already closed; a rejected hit only
+      // reverts a sighting if nothing else is awaiting review
+      if (decision === 'CONFIRMED' && !checkTransition(person.status, 'FOUND', summary)) {
+        return transitionStatus(next, 'FOUND', note ? `${summary}: "${note}"` : summary);
+      }
+      if (decision === 'REJECTED' && person.status === 'SIGHTED' && !stillPending) {
+        return transitionStatus(next, 'MISSING', summary);
+      }
+      return next;
+    });
+  };
+
+  // Record edits never change status, so a draft opened before a scan hit can't undo it
+  const savePerson = (edited: Person) =>
+    updatePerson(edited.id, current => appendEvents(
+      { ...edited, status: current.status, timeline: current.timeline },
+      ...diffPerson(current, edited)
+    ));
+
+  const handleSavePerson = async (edited: Person) => {
+    if (authorize('EDIT_CASE')) await savePerson(edited);
+  };
+
+  const handleChangeStatus = async (personId: string, status: CaseStatus, reason: string) => {
+    if (!authorize('EDIT_CASE')) return;
+    const person = people.find(p => p.id === personId);
+    const problem = person && checkTransition(person.status, status, reason);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    await updatePerson(personId, current => transitionStatus(current, status, reason));
+  };
+
+  // Scan progress is written on every analyzed frame so history survives a reload mid-scan
+  const handleSessionChange = (session: ScanSession) => {
+    if (!can(currentUser, 'RUN_SCAN')) return;
+    if (!session.startedBy && currentUser) session = { ...session, startedBy: actorOf(currentUser) };
+    setSessions(prev => prev.some(s => s.id === session.id)
+      ? prev.map(s => s.id === session.id ? session : s)
+      : [...prev, session]);
+    sessionStore.put(session).catch(err => console.error("Failed to save scan session:", err));
+  };
+
+  // Audit lines are write-only here; the Sessions view reads them back per session
+  const handleLogEntry = (entry: SessionLogEntry) => {
+    if (currentUser) entry = { ...entry, actor: actorOf(currentUser) };
+    auditLog.append(entry).catch(err => console.error("Failed to write audit log:", err));
+  };
+
+  const handleSaveCamera = async (camera: CameraSource) => {
+    if (!authorize('MANAGE_CAMERAS')) return;
+    camera = { ...camera, updatedBy: currentUser ? actorOf(currentUser) : undefined };
+    try {
+      await cameraStore.put(camera);
+      setCameras(prev => prev.some(c => c.id === camera.id)
+        ? prev.map(c => c.id === camera.id ? camera : c)
+        : [...prev, camera]);
+    } catch (err) {
+      console.error("Failed to save camera:", err);
+      alert("Could not save the camera. Please try again.");
+    }
+  };
+
+  const handleDeleteCamera = async (id: string) => {
+    if (!authorize('MANAGE_CAMERAS')) return;
+    try {
+      await cameraStore.delete(id);
+      setCameras(prev => prev.filter(c => c.id !== id));
+    } catch (err) {
+      console.error("Failed to remove camera:", err);
+    }
+  };
+
+  const handleSaveMatchPolicy = async (policy: MatchPolicy) => {
+    if (!authorize('MANAGE_SETTINGS')) return;
+    try {
+      setMatchPolicy(await saveSettings(SETTINGS_KEYS.MATCH_POLICY, policy));
+    } catch (err) {
+      console.error("Failed to save match policy:", err);
+      alert("Could not save settings. Please try again.");
+    }
+  };
+
+  const handleSavePosterSettings = async (settings: PosterSettings) => {
+    if (!authorize('MANAGE_SETTINGS')) return;
+    try {
+      setPosterSettings(await saveSettings(SETTINGS_KEYS.POSTER, settings));
+    } catch (err) {
+      console.error("Failed to save poster settings:", err);
+      alert("Could not save settings. Please try again.");
+    }
+  };
+
+  const handleOpenCase = (id: string) => {
+    setSelectedPersonId(id);
+    setView(AppView.CASE_DETAIL);
   };
 
   // Render the active view
   const renderView = () => {
-    switch (currentView) {
+    // Views the role can't use (e.g. a dashboard shortcut) fall back to the dashboard
+    switch (canView(currentUser, currentView) ? currentView : AppView.HOME) {
+      case AppView.HOME:
+        return <Home people={people} sessions={sessions} candidates={candidates} setView={setView} onOpenCase={handleOpenCase} />;
       case AppView.REPORT:
-        return <Report onAddPerson={handleAddPerson} />;
+        return <Report people={people} onAddPerson={handleAddPerson} onMergeReport={handleMergeReport} />;
       case AppView.DIRECTORY:
-        return <Directory people={people} />;
+        return <Directory people={people} onOpenCase={handleOpenCase} onImport={handleImport} canImport={can(currentUser, 'IMPORT_CASES')} />;
+      case AppView.CASE_DETAIL: {
+        const person = people.find(p => p.id === selectedPersonId);
+        if (!person) return <Directory people={people} onOpenCase={handleOpenCase} onImport={handleImport} canImport={can(currentUser, 'IMPORT_CASES')} />;
+        return (
+          <CaseDetail
+            person={person}
+            candidates={candidates}
+            posterSettings={posterSettings}
+            loadEvidence={evidenceStore.forPerson}
+            canEdit={can(currentUser, 'EDIT_CASE')}
+            onSave={handleSavePerson}
+            onChangeStatus={(status, reason) => handleChangeStatus(person.id, status, reason)}
+            onBack={() => setView(AppView.DIRECTORY)}
+          />
+        );
+      }
+      case AppView.REVIEW:
+        return <Review people={people} candidates={candidates} onDecide={handleReviewDecision} />;
+      case AppView.MAP:
+        return <MapView people={people} candidates={candidates} onOpenCase={handleOpenCase} />;
       case AppView.SCAN:
-        return <Scan people={people} onUpdatePersonStatus={handleUpdateStatus} />;
+        return <Scan people={people} cameras={cameras} onMatchCandidate={handleMatchCandidate} onSessionChange={handleSessionChange} onLogEntry={handleLogEntry} matchPolicy={matchPolicy} />;
+      case AppView.IDENTIFY:
+        return <Identify people={people} onOpenCase={handleOpenCase} />;
+      case AppView.CAMERAS:
+        return (
+          <Cameras
+            cameras={cameras}
+            people={people}
+            candidates={candidates}
+            canManage={can(currentUser, 'MANAGE_CAMERAS')}
+            onSaveCamera={handleSaveCamera}
+            onDeleteCamera={handleDeleteCamera}
+            onMatchCandidate={handleMatchCandidate}
+            onSessionChange={handleSessionChange}
+            onLogEntry={handleLogEntry}
+            matchPolicy={matchPolicy}
+          />
+        );
+      case AppView.SESSIONS:
+        return <Sessions sessions={sessions} people={people} cameras={cameras} candidates={candidates} loadLog={auditLog.forSession} onOpenCase={handleOpenCase} />;
+      case AppView.SETTINGS:
+        return (
+          <Settings
+            matchPolicy={matchPolicy}
+            onSaveMatchPolicy={handleSaveMatchPolicy}
+            posterSettings={posterSettings}
+            onSavePosterSettings={handleSavePosterSettings}
+          />
+        );
+      case AppView.USERS:
+        return (
+          <Users
+            users={users || []}
+            currentUser={currentUser!}
+            onCreateUser={handleCreateUser}
+            onUpdateUser={handleUpdateUser}
+            onResetPassword={handleResetPassword}
+          />
+        );
       default:
-        return <Scan people={people} onUpdatePersonStatus={handleUpdateStatus} />;
+        return <Home people={people} sessions={sessions} candidates={candidates} setView={setView} onOpenCase={handleOpenCase} />;
     }
   };
 
+  if (usersFailed) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-3 bg-slate-950 text-sm">
+        <p className="text-red-300">Could not load user accounts from this browser's storage.</p>
+        <button onClick={loadUsers} className="px-4 py-2 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">
+          Retry
+        </button>
+      </div>
+    );
+  }
+  if (!users) {
+    return <div className="flex h-screen items-center justify-center bg-slate-950 text-slate-500 text-sm">Loading...</div>;
+  }
+  if (!currentUser) {
+    return <Login setup={users.length === 0} onSignIn={handleSignIn} onCreateAdmin={handleCreateAdmin} />;
+  }
+
   return (
     
     <div className="flex h-screen bg-slate-950 text-slate-200 font-sans overflow-hidden">
       {/* Fixed Sidebar */}
-      <Navbar currentView={currentView} setView={setView} />
+      <Navbar currentView={currentView} setView={setView} pendingReviews={candidates.filter(c => c.status === 'PENDING').length} user={currentUser} onSignOut={handleSignOut} />
       
       {/* Scrollable Main Content */}
       <main className="flex-1 h-full overflow-y-auto relative scroll-smooth">
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ChangeDetectionOptions } from '../services/frames';
+
+interface ChangeDetectionSettingsProps {
+  value: ChangeDetectionOptions;
+  onChange: (value: ChangeDetectionOptions) => void;
+  disabled?: boolean;
+  stats?: { sent: number; skipped: number };
+}
+
+/**
+ * Controls for the live-feed change pre-filter, with a sent/skipped tally.
+ */
+export const ChangeDetectionSettings: React.FC<ChangeDetectionSettingsProps> = ({ value, onChange, disabled, stats }) => {
+  const total = stats ? stats.sent + stats.skipped : 0;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between text-xs font-bold text-slate-500 uppercase tracking-wider">
+        <span>Change Detection (Live)</span>
+        <input
+          type="checkbox"
+          disabled={disabled}
+          checked={value.enabled}
+          onChange={e => onChange({ ...value, enabled: e.target.checked })}
+          className="accent-sky-500"
+        />
+      </label>
+      <label className={`block text-[10px] text-slate-400 space-y-1 ${value.enabled ? '' : 'opacity-50'}`}>
+        <span className="flex justify-between">
+          <span>Sensitivity</span>
+          <span className="font-mono">{value.sensitivity}</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          disabled={disabled || !value.enabled}
+          value={value.sensitivity}
+          onChange={e => onChange({ ...value, sensitivity: Number(e.target.value) })}
+          className="w-full accent-sky-500"
+        />
+      </label>
+      {stats && total > 0 && (
+        <p className="text-[10px] text-slate-500 font-mono">
+          {stats.sent} sent · {stats.skipped} skipped ({Math.round((stats.skipped / total) * 100)}% saved)
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Copy, GitMerge, FilePlus, ArrowLeft, AlertTriangle, ScanFace } from 'lucide-react';
+import { DuplicateCheck } from '../services/duplicates';
+import { describeErrorKind } from '../services/errors';
+import { StatusBadge } from './StatusBadge';
+
+interface DuplicatePanelProps {
+  check: DuplicateCheck;
+  onMerge: (existingId: string) => void;
+  onFileNew: () => void;
+  onBack: () => void;
+}
+
+/**
+ * Existing cases a new report may duplicate, with the reasons each was
+ * flagged. The reporter merges into one of them or files the report anyway.
+ */
+export const DuplicatePanel: React.FC<DuplicatePanelProps> = ({ check, onMerge, onFileNew, onBack }) => (
+  <div className="bg-slate-900 border border-yellow-500/40 rounded-2xl p-6 space-y-4">
+    <div>
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <Copy className="w-5 h-5 text-yellow-400" /> Possible Duplicate Report
+      </h3>
+      <p className="text-xs text-slate-400 mt-1">
+        {check.matches.length > 0
+          ? 'This person may already be in the directory. Merging adds your photo and details to the existing case so it is scanned once.'
+          : 'No existing case matched the details of this report.'}
+      </p>
+    </div>
+
+    {check.faceError && (
+      <p className="flex items-start gap-2 text-xs text-yellow-300">
+        <AlertTriangle className="w-4 h-4 shrink-0" />
+        Photo comparison unavailable ({describeErrorKind(check.faceError.kind)}). Matches are based on name, age and date only.
+      </p>
+    )}
+
+    {check.matches.length > 0 && (
+      <div className="max-h-96 overflow-y-auto border border-slate-800 rounded-lg divide-y divide-slate-800">
+        {check.matches.map(({ person, score, faceConfidence, reasons }) => (
+          <div key={person.id} className="flex items-start gap-4 p-3">
+            <img src={person.imageUrl} alt={person.name} className="w-16 h-16 rounded-lg object-cover border border-slate-700 shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="text-white font-medium truncate">{person.name}</p>
+                <StatusBadge status={person.status} size="sm" />
+                <span className="ml-auto text-xs font-mono text-yellow-400">{score}%</span>
+              </div>
+              <p className="text-xs text-slate-500">
+                Age {person.age || '?'} · last seen {person.lastSeenLocation}, {person.lastSeenDate}
+              </p>
+              <ul className="text-xs text-slate-400 space-y-0.5">
+                {reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+              </ul>
+              {faceConfidence !== undefined && (
+                <p className="text-[10px] text-neon-blue flex items-center gap-1"><ScanFace className="w-3 h-3" /> Face comparison</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => onMerge(person.id)}
+              className="shrink-0 text-xs flex items-center gap-1 px-3 py-2 rounded border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/10"
+            >
+              <GitMerge className="w-3 h-3" /> Merge
+            </button>
+          </div>
+        ))}
+      </div>
+    )}
+
+    <div className="flex flex-wrap gap-2">
+      <button type="button" onClick={onBack} className="text-xs flex items-center gap-1 px-3 py-2 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">
+        <ArrowLeft className="w-3 h-3" /> Back to Report
+      </button>
+      <button type="button" onClick={onFileNew} className="ml-auto text-xs flex items-center gap-1 px-3 py-2 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">
+        <FilePlus className="w-3 h-3" /> {check.matches.length > 0 ? 'Not a Duplicate - File New Case' : 'File New Case'}
+      </button>
+    </div>
+  </div>
+);
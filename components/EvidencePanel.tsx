@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Evidence, MatchCandidate, Person } from '../types';
+import { FileImage, Maximize2, Minimize2, Clock, Target } from 'lucide-react';
+
+interface EvidencePanelProps {
+  person: Person;
+  evidence: Evidence[];
+  candidates: MatchCandidate[];
+  loading?: boolean;
+}
+
+const getBoxStyle = (box: [number, number, number, number]) => {
+  const [ymin, xmin, ymax, xmax] = box;
+  return {
+    top: `${ymin / 10}%`,
+    left: `${xmin / 10}%`,
+    height: `${(ymax - ymin) / 10}%`,
+    width: `${(xmax - xmin) / 10}%`,
+  };
+};
+
+const STATUS_STYLES: Record<MatchCandidate['status'], string> = {
+  PENDING: 'bg-yellow-500/10 text-yellow-400',
+  CONFIRMED: 'bg-green-500/10 text-green-400',
+  REJECTED: 'bg-red-500/10 text-red-400',
+};
+
+/**
+ * Saved detection snapshots for a case, each shown next to the primary
+ * reference photo so the match can be judged at a glance. The full frame
+ * comes from the review queue entry the evidence was raised with.
+ */
+export const EvidencePanel: React.FC<EvidencePanelProps> = ({ person, evidence, candidates, loading }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6">
+      <h3 className="text-lg font-semibold text-white mb-6 flex items-center gap-2">
+        <FileImage className="w-5 h-5 text-neon-blue" /> Detection Evidence
+        <span className="text-xs font-mono text-slate-500 ml-auto">{evidence.length} snapshot{evidence.length === 1 ? '' : 's'}</span>
+      </h3>
+
+      {evidence.length === 0 ? (
+        <p className="text-sm text-slate-500">{loading ? 'Loading evidence...' : 'No detections recorded for this case yet.'}</p>
+      ) : (
+        <div className="space-y-4">
+          {evidence.map(item => {
+            const candidate = candidates.find(c => c.id === item.candidateId);
+            const frame = candidate?.frame;
+            const expanded = expandedId === item.id;
+            return (
+              <div key={item.id} className="border border-slate-800 rounded-xl p-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <figure className="space-y-1">
+                    <img src={person.imageUrl} alt={`${person.name} reference`} className="w-full h-48 object-contain bg-black rounded-lg" />
+                    <figcaption className="text-[10px] text-slate-500 uppercase font-bold text-center">Reference</figcaption>
+                  </figure>
+                  <figure className="space-y-1">
+                    <img src={item.crop || frame} alt="Detection crop" className="w-full h-48 object-contain bg-black rounded-lg border border-yellow-500/40" />
+                    <figcaption className="text-[10px] text-slate-500 uppercase font-bold text-center">
+                      {item.crop ? 'Detection' : 'Frame (no box returned)'}
+                    </figcaption>
+                  </figure>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3 text-xs font-mono text-slate-400">
+                  <span className="flex items-center gap-1"><Target className="w-3 h-3" /> {item.confidence}%</span>
+                  <span>{item.sourceLabel ? `${item.sourceLabel} · ` : ''}{item.locationContext}</span>
+                  <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {new Date(item.capturedAt).toLocaleString()}</span>
+                  {candidate && <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${STATUS_STYLES[candidate.status]}`}>{candidate.status}</span>}
+                  {frame && <button
+                    onClick={() => setExpandedId(expanded ? null : item.id)}
+                    className="ml-auto flex items-center gap-1 text-neon-blue hover:text-white"
+                  >
+                    {expanded ? <Minimize2 className="w-3 h-3" /> : <Maximize2 className="w-3 h-3" />} {expanded ? 'Hide frame' : 'Full frame'}
+                  </button>}
+                </div>
+
+                {expanded && frame && (
+                  <div className="relative bg-black rounded-lg overflow-hidden">
+                    <img src={frame} alt="Analyzed frame" className="w-full h-auto" />
+                    {item.boundingBox && (
+                      <div className="absolute border-2 border-yellow-400 bg-yellow-400/10" style={getBoxStyle(item.boundingBox)} />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
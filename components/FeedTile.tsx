@@ -0,0 +1,326 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraSource, MatchCandidate, Person, ScanSession, SessionLogEntry, SessionLogKind } from '../types';
+import { Play, StopCircle, Pencil, Target, VideoOff, MapPin } from 'lucide-react';
+import { BatchScanOptions, scanCrowdForBatch } from '../services/recognition';
+import { RequestBudget } from '../services/batching';
+import { QUOTA_COOLDOWN_MS, classifyError, describeErrorKind } from '../services/errors';
+import { ChangeDetectionOptions, captureFrame, createChangeDetector } from '../services/frames';
+import { deviceConstraints, describeCameraSource } from '../services/cameras';
+import { formatPoint } from '../services/geo';
+import { createLogEntry } from '../services/auditLog';
+import { MatchPolicy, acceptedDetections, classifyConfidence, createHitGate, createStreakTracker, thresholdsFor } from '../services/matchPolicy';
+
+type FeedStatus = 'IDLE' | 'CONNECTING' | 'SCANNING' | 'WAITING' | 'COOLDOWN' | 'ERROR';
+
+const STATUS_STYLES: Record<FeedStatus, string> = {
+  IDLE: 'text-slate-500',
+  CONNECTING: 'text-yellow-400 animate-pulse',
+  SCANNING: 'text-neon-blue animate-pulse',
+  WAITING: 'text-neon-green',
+  COOLDOWN: 'text-yellow-400',
+  ERROR: 'text-red-400',
+};
+
+interface LastDetection {
+  names: string[];
+  confidence: number;
+  at: string; // ISO
+}
+
+interface FeedTileProps {
+  camera: CameraSource;
+  targets: Person[];
+  pendingPersonIds: Set<string>; // People with a hit awaiting review; not raised again until decided
+  active: boolean;
+  budget: RequestBudget;
+  batchOptions: Required<BatchScanOptions>;
+  changeOptions: ChangeDetectionOptions;
+  matchPolicy: MatchPolicy;
+  onToggle: () => void;
+  onEdit?: () => void; // Hidden for users who can't manage cameras
+  onMatchCandidate: (candidate: MatchCandidate) => void;
+  onSessionChange: (session: ScanSession) => void;
+  onLogEntry: (entry: SessionLogEntry) => void;
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * One feed in the camera grid. While `active` it connects to the camera and
+ * analyzes a frame every `scanIntervalSec`; requests go through the shared budget.
+ */
+export const FeedTile: React.FC<FeedTileProps> = (props) => {
+  const { camera, active, onToggle, onEdit } = props;
+  const [status, setStatus] = useState<FeedStatus>('IDLE');
+  const [message, setMessage] = useState('');
+  const [lastDetection, setLastDetection] = useState<LastDetection | null>(null);
+  const [frameStats, setFrameStats] = useState({ sent: 0, skipped: 0 });
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The scan loop outlives renders; read targets/settings/callbacks from here so it never goes stale
+  const latest = useRef(props);
+  latest.current = props;
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let session: ScanSession | null = null;
+    const detector = createChangeDetector();
+    const streaks = createStreakTracker(latest.current.matchPolicy.liveConsecutiveFrames);
+    const gate = createHitGate();
+
+    const saveSession = (next: ScanSession) => {
+      session = next;
+      latest.current.onSessionChange(next);
+    };
+
+    const audit = (kind: SessionLogKind, message: string, extra?: Parameters<typeof createLogEntry>[3]) => {
+      if (session) latest.current.onLogEntry(createLogEntry(session.id, kind, message, extra));
+    };
+
+    const connect = async (video: HTMLVideoElement) => {
+      if (camera.kind === 'device') {
+        stream = await navigator.mediaDevices.getUserMedia(deviceConstraints(camera));
+        video.srcObject = stream;
+      } else {
+        // Frames can only be read back from cross-origin video served with CORS headers
+        video.crossOrigin = 'anonymous';
+        video.src = camera.streamUrl || '';
+      }
+      await video.play();
+    };
+
+    const run = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas) return;
+
+      setStatus('CONNECTING');
+      setMessage('');
+      try {
+        await connect(video);
+      } catch (err) {
+        console.error(`Feed ${camera.name} failed to connect:`, err);
+        setStatus('ERROR');
+        setMessage(camera.kind === 'device' ? 'Camera unavailable or permission denied.' : 'Stream could not be played.');
+        return;
+      }
+      if (cancelled) return;
+
+      saveSession({
+        id: crypto.randomUUID(),
+        source: 'stream',
+        cameraId: camera.id,
+        sourceLocation: camera.location,
+        sourceLabel: camera.name,
+        // Targets can change while the feed runs; this is the set at start
+        referenceIds: latest.current.targets.map(p => p.id),
+        startedAt: new Date().toISOString(),
+        framesAnalyzed: 0,
+        framesWithHits: 0,
+        detections: 0,
+      });
+      audit('INFO', `Feed ${camera.name} connected (${describeCameraSource(camera)}).`);
+
+      while (!cancelled) {
+        const { targets, budget, batchOptions, changeOptions, matchPolicy } = latest.current;
+
+        let frame: string | null = null;
+        let forced = false;
+        try {
+          // An unchanged scene isn't worth an AI call
+          const change = changeOptions.enabled && targets.length > 0 ? detector.check(video, changeOptions) : null;
+          if (change && !change.changed) {
+            const current = session!;
+            saveSession({ ...current, framesSkipped: (current.framesSkipped || 0) + 1 });
+            setFrameStats(prev => ({ ...prev, skipped: prev.skipped + 1 }));
+          } else {
+            frame = captureFrame(video, canvas);
+            forced = !!change?.forced;
+          }
+        } catch (err) {
+          // Tainted canvas: the stream plays but its pixels can't be read
+          console.error(`Feed ${camera.name} frame capture failed:`, err);
+          setStatus('ERROR');
+          setMessage('Stream is not CORS-enabled; frames cannot be analyzed.');
+          audit('ERROR', 'Frame capture failed: stream is not CORS-enabled.');
+          break;
+        }
+
+        if (frame && targets.length > 0) {
+          setStatus('SCANNING');
+          const frameLabel = new Date().toLocaleTimeString();
+          audit('FRAME', `Checking frame against ${targets.length} targets${forced ? ' (keepalive)' : ''}...`, { frameLabel });
+          setFrameStats(prev => ({ ...prev, sent: prev.sent + 1 }));
+          try {
+            const analysis = await scanCrowdForBatch(targets, frame, batchOptions, {
+              budget,
+              onRetry: (error, attempt) => {
+                setMessage(`${error.kind}: retrying...`);
+                audit('ERROR', `${error.kind}: retry ${attempt}`, { frameLabel });
+              },
+            });
+            if (cancelled) break;
+
+            const thresholds = thresholdsFor(matchPolicy, 'stream');
+            const accepted = streaks.update(acceptedDetections(analysis.detections, thresholds));
+            const hits = gate.filter(accepted, latest.current.pendingPersonIds);
+            const held = accepted.length - hits.length;
+            audit('RESULT', analysis.detections.length === 0
+              ? `${frameLabel}: no detections`
+              : `${frameLabel}: ${analysis.detections.length} detection(s), ${hits.length} accepted${held ? `, ${held} already awaiting review` : ''}`, {
+              frameLabel,
+              detections: analysis.detections.map(d => ({ personId: d.personId, confidence: d.confidence })),
+            });
+            const current = session!;
+            saveSession({
+              ...current,
+              framesAnalyzed: current.framesAnalyzed + 1,
+              framesWithHits: current.framesWithHits + (hits.length > 0 ? 1 : 0),
+              detections: current.detections + hits.length,
+            });
+            setMessage('');
+
+            if (hits.length > 0) {
+              const detectedAt = new Date().toISOString();
+              hits.forEach(detection => {
+                const tier = classifyConfidence(detection.confidence, thresholds) === 'FLAG' ? 'FLAG' : 'REVIEW';
+                const candidate: MatchCandidate = {
+                  id: crypto.randomUUID(),
+                  personId: detection.personId,
+                  confidence: detection.confidence,
+                  explanation: detection.explanation,
+                  boundingBox: detection.boundingBox,
+                  frame,
+                  locationContext: `LIVE ${frameLabel}`,
+                  sourceLocation: camera.location,
+                  sourceLabel: camera.name,
+                  sessionId: current.id,
+                  tier,
+                  detectedAt,
+                  status: 'PENDING',
+                };
+                latest.current.onMatchCandidate(candidate);
+                const name = targets.find(p => p.id === detection.personId)?.name || 'Unknown';
+                audit('RESULT', `${tier === 'FLAG' ? 'POSSIBLE MATCH' : 'LOW-CONFIDENCE MATCH'}: ${name} (${detection.confidence}%) - queued for review`, {
+                  frameLabel,
+                  detections: [{ personId: detection.personId, confidence: detection.confidence }],
+                  candidateId: candidate.id,
+                });
+              });
+              setLastDetection({
+                names: hits.map(d => targets.find(p => p.id === d.personId)?.name || 'Unknown'),
+                confidence: hits[0].confidence,
+                at: detectedAt,
+              });
+            }
+          } catch (e) {
+            if (cancelled) break;
+            // The change was never analyzed - make sure the next frame goes out
+            detector.reset();
+            const error = classifyError(e);
+            console.error(`Feed ${camera.name} scan failed:`, error);
+            setMessage(describeErrorKind(error.kind));
+            audit('ERROR', `${frameLabel} failed: ${describeErrorKind(error.kind)}`, { frameLabel });
+            if (error.kind === 'AUTH') {
+              setStatus('ERROR');
+              break;
+            }
+            if (error.kind === 'QUOTA') {
+              setStatus('COOLDOWN');
+              await sleep(QUOTA_COOLDOWN_MS);
+              continue;
+            }
+          }
+        } else if (targets.length === 0) {
+          setMessage('No active cases to search for.');
+        }
+
+        if (cancelled) break;
+        setStatus('WAITING');
+        await sleep(camera.scanIntervalSec * 1000);
+      }
+    };
+
+    run();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      if (videoRef.current) {
+        videoRef.current.pause();
+        videoRef.current.srcObject = null;
+        videoRef.current.removeAttribute('src');
+      }
+      if (session) {
+        audit('OPERATOR', `Feed ${camera.name} stopped.`);
+        latest.current.onSessionChange({ ...session, endedAt: new Date().toISOString() });
+      }
+      setStatus('IDLE');
+    };
+  }, [active, camera.kind, camera.deviceId, camera.streamUrl, camera.scanIntervalSec]);
+
+  return (
+    <div className={`bg-slate-900 border rounded-2xl overflow-hidden flex flex-col ${lastDetection && active ? 'border-yellow-500/50' : 'border-slate-800'}`}>
+      <div className="relative aspect-video bg-black flex items-center justify-center">
+        <video ref={videoRef} muted playsInline className={`w-full h-full object-contain ${active ? '' : 'hidden'}`} />
+        {!active && <VideoOff className="w-10 h-10 text-slate-700" />}
+        {active && (
+          <div className="absolute top-2 left-2 flex items-center gap-1.5 px-2 py-0.5 bg-black/60 rounded-full">
+            <div className={`w-1.5 h-1.5 rounded-full ${status === 'ERROR' ? 'bg-red-500' : 'bg-neon-red animate-pulse'}`}></div>
+            <span className="text-[10px] font-bold text-white">{camera.kind === 'device' ? 'LIVE' : 'STREAM'}</span>
+          </div>
+        )}
+        <canvas ref={canvasRef} className="hidden" />
+      </div>
+
+      <div className="p-3 space-y-2 flex-1 flex flex-col">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-white font-bold text-sm truncate">{camera.name}</p>
+            <p className="text-[10px] text-slate-500 truncate flex items-center gap-1">
+              {camera.location && <MapPin className="w-3 h-3 shrink-0" />}
+              {camera.location ? formatPoint(camera.location) : describeCameraSource(camera)}
+            </p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            {onEdit && (
+              <button onClick={onEdit} disabled={active} title="Edit camera" className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-white disabled:opacity-40">
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+            <button
+              onClick={onToggle}
+              title={active ? 'Stop feed' : 'Start feed'}
+              className={`p-1.5 rounded border ${active ? 'border-red-500/50 text-red-400 hover:bg-red-500/20' : 'border-neon-blue/50 text-neon-blue hover:bg-neon-blue/10'}`}
+            >
+              {active ? <StopCircle className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-between text-[10px] font-mono">
+          <span className={STATUS_STYLES[status]}>{status}</span>
+          <span className="text-slate-500" title="Frames sent / skipped as unchanged">
+            {frameStats.sent} sent · {frameStats.skipped} skipped · every {camera.scanIntervalSec}s
+          </span>
+        </div>
+        {message && <p className="text-[10px] text-yellow-400 truncate" title={message}>{message}</p>}
+
+        <div className="mt-auto pt-2 border-t border-slate-800 text-[10px]">
+          {lastDetection ? (
+            <p className="text-yellow-400 flex items-center gap-1 truncate" title={lastDetection.names.join(', ')}>
+              <Target className="w-3 h-3 shrink-0" />
+              {lastDetection.names.join(', ')} ({lastDetection.confidence}%) · {new Date(lastDetection.at).toLocaleTimeString()}
+            </p>
+          ) : (
+            <p className="text-slate-600">No detections yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Person } from '../types';
+import { FileUp, X, CheckCircle, XCircle, Copy, Loader2 } from 'lucide-react';
+import { DuplicatePolicy, ImportMerge, ImportPlan, mergeImport } from '../services/caseTransfer';
+
+interface ImportPanelProps {
+  plan: ImportPlan;
+  people: Person[];
+  onImport: (merge: ImportMerge) => Promise<void>;
+  onClose: () => void;
+}
+
+const REASON_LABELS = {
+  ID: 'same record id',
+  NAME_AND_DATE: 'same name and last-seen date',
+};
+
+/**
+ * Per-row report for a parsed import file. Nothing is written until the
+ * operator confirms, and only valid rows are ever merged.
+ */
+export const ImportPanel: React.FC<ImportPanelProps> = ({ plan, people, onImport, onClose }) => {
+  const [policy, setPolicy] = useState<DuplicatePolicy>('SKIP');
+  const [importing, setImporting] = useState(false);
+
+  const invalid = plan.rows.filter(r => !r.person);
+  const duplicates = plan.rows.filter(r => r.person && r.duplicate);
+  const merge = mergeImport(plan, people, policy);
+  const total = merge.added.length + merge.replaced.length;
+
+  const confirm = async () => {
+    setImporting(true);
+    await onImport(merge);
+    setImporting(false);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 mb-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <FileUp className="w-5 h-5 text-neon-blue" /> Import {plan.fileName}
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs font-mono">
+        <span className="text-green-400">{plan.rows.length - invalid.length - duplicates.length} new</span>
+        <span className="text-yellow-400">{duplicates.length} duplicate</span>
+        <span className="text-red-400">{invalid.length} invalid</span>
+      </div>
+
+      {plan.rows.length === 0 ? (
+        <p className="text-sm text-slate-500">The file contains no records.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto border border-slate-800 rounded-lg divide-y divide-slate-800">
+          {plan.rows.map(row => (
+            <div key={row.row} className="flex items-start gap-3 p-2 text-xs">
+              <span className="text-slate-500 font-mono w-10 shrink-0">#{row.row}</span>
+              {!row.person ? (
+                <XCircle className="w-4 h-4 text-red-400 shrink-0" />
+              ) : row.duplicate ? (
+                <Copy className="w-4 h-4 text-yellow-400 shrink-0" />
+              ) : (
+                <CheckCircle className="w-4 h-4 text-green-400 shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-white truncate">{row.label}</p>
+                {row.errors.map((error, i) => <p key={i} className="text-red-400">{error}</p>)}
+                {row.duplicate && (
+                  <p className="text-yellow-400">
+                    {row.duplicate.existingId
+                      ? `Matches existing case "${row.duplicate.name}" (${REASON_LABELS[row.duplicate.reason]})`
+                      : `Repeats an earlier row in this file (${REASON_LABELS[row.duplicate.reason]}) - skipped`}
+                  </p>
+                )}
+                {row.duplicate?.statusProblem && (
+                  <p className="text-red-400">Status from file rejected: {row.duplicate.statusProblem} The case is kept as it is.</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {duplicates.some(r => r.duplicate?.existingId) && (
+        <div className="flex items-center gap-3 text-xs text-slate-400">
+          <span>Existing cases:</span>
+          {(['SKIP', 'REPLACE'] as const).map(option => (
+            <button key={option} onClick={() => setPolicy(option)}
+              className={`px-3 py-1 rounded-full border font-bold transition-colors ${policy === option ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 hover:bg-slate-800'}`}>
+              {option === 'SKIP' ? 'Keep current' : 'Update from file'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={confirm}
+        disabled={total === 0 || importing}
+        className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-2 rounded-lg text-xs flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+        {merge.replaced.length > 0
+          ? `Add ${merge.added.length}, update ${merge.replaced.length}`
+          : `Import ${merge.added.length} record${merge.added.length === 1 ? '' : 's'}`}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Crosshair, Map as MapIcon, X } from 'lucide-react';
+import { GeoPoint } from '../types';
+import { formatPoint, getCurrentPoint, parsePoint } from '../services/geo';
+import { MapCanvas } from './MapCanvas';
+
+interface LocationPickerProps {
+  value?: GeoPoint;
+  onChange: (point: GeoPoint | undefined) => void;
+  inputClassName: string;
+}
+
+/**
+ * Coordinate field: type "lat, lng", use the device position, or click on a map.
+ */
+export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange, inputClassName }) => {
+  const [text, setText] = useState(value ? formatPoint(value) : '');
+  const [showMap, setShowMap] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const invalid = text.trim() !== '' && !parsePoint(text);
+
+  // Reflect outside changes (map pick, geolocation, record reload)
+  useEffect(() => {
+    const current = parsePoint(text);
+    if (value && (!current || current.lat !== value.lat || current.lng !== value.lng)) setText(formatPoint(value));
+    if (!value && current) setText('');
+  }, [value]);
+
+  const handleText = (next: string) => {
+    setText(next);
+    if (next.trim() === '') onChange(undefined);
+    else {
+      const point = parsePoint(next);
+      if (point) onChange(point);
+    }
+  };
+
+  const useDeviceLocation = async () => {
+    setLocating(true);
+    try {
+      onChange(await getCurrentPoint());
+    } catch (err) {
+      console.error("Geolocation failed:", err);
+      alert("Could not determine current location.");
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="lat, lng (optional)"
+          className={`${inputClassName} font-mono text-sm ${invalid ? 'border-red-500/60' : ''}`}
+          value={text}
+          onChange={e => handleText(e.target.value)}
+        />
+        <button type="button" title="Use my location" onClick={useDeviceLocation} disabled={locating}
+          className="px-3 rounded-lg border border-slate-700 text-slate-400 hover:text-neon-blue hover:border-neon-blue disabled:opacity-50">
+          <Crosshair className={`w-4 h-4 ${locating ? 'animate-spin' : ''}`} />
+        </button>
+        <button type="button" title="Pick on map" onClick={() => setShowMap(!showMap)}
+          className={`px-3 rounded-lg border ${showMap ? 'border-neon-blue text-neon-blue' : 'border-slate-700 text-slate-400 hover:text-neon-blue hover:border-neon-blue'}`}>
+          {showMap ? <X className="w-4 h-4" /> : <MapIcon className="w-4 h-4" />}
+        </button>
+      </div>
+      {invalid && <p className="text-[10px] text-red-400">Enter latitude and longitude, e.g. 40.7128, -74.0060</p>}
+      {showMap && (
+        <>
+          <MapCanvas
+            className="h-64 rounded-lg border border-slate-800"
+            markers={value ? [{ id: 'picked', point: value, color: '#ff005e', label: 'Last seen' }] : []}
+            onPick={onChange}
+          />
+          <p className="text-[10px] text-slate-500">Click to place the point. Drag to pan, scroll to zoom.</p>
+        </>
+      )}
+    </div>
+  );
+};
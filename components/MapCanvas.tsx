@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { geoMercator, geoPath, geoGraticule10 } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { FeatureCollection } from 'geojson';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import { Maximize2, Plus, Minus, Loader2 } from 'lucide-react';
+import { GeoPoint } from '../types';
+
+export interface MapMarker {
+  id: string;
+  point: GeoPoint;
+  color: string;
+  label: string;
+  shape?: 'circle' | 'diamond';
+  onClick?: () => void;
+}
+
+export interface MapLine {
+  id: string;
+  from: GeoPoint;
+  to: GeoPoint;
+  color: string;
+  label?: string;
+}
+
+interface MapCanvasProps {
+  markers: MapMarker[];
+  lines?: MapLine[];
+  onPick?: (point: GeoPoint) => void; // Enables click-to-pick
+  className?: string;
+}
+
+// Bundled vector base (Natural Earth via world-atlas) - no tile server needed, works offline.
+// Loaded on demand so the map data stays out of the main chunk.
+type CountriesTopology = Topology<{ countries: GeometryCollection }>;
+
+const isCountriesTopology = (value: unknown): value is CountriesTopology =>
+  typeof value === 'object' && value !== null && 'type' in value && value.type === 'Topology'
+  && 'objects' in value && typeof value.objects === 'object' && value.objects !== null && 'countries' in value.objects;
+
+let countriesPromise: Promise<FeatureCollection> | null = null;
+const loadCountries = () => {
+  if (!countriesPromise) {
+    countriesPromise = import('world-atlas/countries-50m.json').then((module: unknown) => {
+      // JSON arrives as the default export, or as the namespace itself depending on the bundler
+      const topology = typeof module === 'object' && module !== null && 'default' in module ? module.default : module;
+      if (!isCountriesTopology(topology)) throw new Error("Map base data is not a TopoJSON countries topology");
+      return feature(topology, topology.objects.countries) as unknown as FeatureCollection;
+    });
+  }
+  return countriesPromise;
+};
+
+interface View {
+  scale: number;
+  translate: [number, number];
+}
+
+const MIN_SCALE = 80;
+const MAX_SCALE = 2_000_000;
+const PADDING = 40;
+
+export const MapCanvas: React.FC<MapCanvasProps> = ({ markers, lines = [], onPick, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [countries, setCountries] = useState<FeatureCollection | null>(null);
+  const [view, setView] = useState<View | null>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    loadCountries().then(setCountries).catch(err => console.error("Failed to load map base:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fits all markers (or the whole world) into the viewport
+  const fitView = () => {
+    if (!size.width || !size.height || !countries) return;
+    const extent: [[number, number], [number, number]] = [[PADDING, PADDING], [size.width - PADDING, size.height - PADDING]];
+    const projection = geoMercator();
+    const points = [...markers.map(m => m.point), ...lines.flatMap(l => [l.from, l.to])];
+
+    if (points.length === 0) {
+      projection.fitExtent(extent, countries);
+    } else if (points.length === 1) {
+      projection.scale(200_000).center([points[0].lng, points[0].lat]).translate([size.width / 2, size.height / 2]);
+    } else {
+      projection.fitExtent(extent, { type: 'MultiPoint', coordinates: points.map(p => [p.lng, p.lat]) });
+      // Don't zoom in absurdly far on points a few metres apart
+      if (projection.scale() > 500_000) {
+        const [x, y] = projection.translate();
+        const k = 500_000 / projection.scale();
+        projection.scale(500_000).translate([size.width / 2 - (size.width / 2 - x) * k, size.height / 2 - (size.height / 2 - y) * k]);
+      }
+    }
+    setView({ scale: projection.scale(), translate: projection.translate() as [number, number] });
+  };
+
+  // Initial fit once size and base data are known
+  useEffect(() => {
+    if (!view) fitView();
+  }, [size, countries]);
+
+  const projection = useMemo(() => {
+    if (!view) return null;
+    return geoMercator().scale(view.scale).translate(view.translate);
+  }, [view]);
+
+  const path = useMemo(() => projection ? geoPath(projection) : null, [projection]);
+  const countryPaths = useMemo(
+    () => (path && countries ? countries.features.map(f => path(f) || '') : []),
+    [path, countries]
+  );
+  const graticule = useMemo(() => (path ? path(geoGraticule10()) || '' : ''), [path]);
+
+  const zoomAt = (factor: number, cx = size.width / 2, cy = size.height / 2) => {
+    setView(prev => {
+      if (!prev) return prev;
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+      const k = scale / prev.scale;
+      return { scale, translate: [cx - (cx - prev.translate[0]) * k, cy - (cy - prev.translate[1]) * k] };
+    });
+  };
+
+  const localPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top] as [number, number];
+  };
+
+  // Native listener: React's onWheel is passive, so it can't stop the page from scrolling
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const [x, y] = localPoint(e);
+      zoomAt(e.deltaY < 0 ? 1.25 : 0.8, x, y);
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [size]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (Math.abs(dx) + Math.abs(dy) > 2) drag.moved = true;
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+    setView(prev => prev && { ...prev, translate: [prev.translate[0] + dx, prev.translate[1] + dy] });
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // A click without dragging picks a point
+    if (!drag || drag.moved || !onPick || !projection?.invert) return;
+    const coords = projection.invert(localPoint(e));
+    if (coords) onPick({ lat: coords[1], lng: coords[0] });
+  };
+
+  const project = (point: GeoPoint) => projection?.([point.lng, point.lat]) ?? null;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden bg-slate-950 select-none ${onPick ? 'cursor-crosshair' : 'cursor-grab'} ${className}`}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onMouseLeave={() => { dragRef.current = null; }}
+    >
+      {!countries && (
+        <div className="absolute inset-0 flex items-center justify-center text-slate-500">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+
+      {projection && (
+        <svg width={size.width} height={size.height} className="absolute inset-0">
+          <path d={graticule} fill="none" stroke="rgba(14,165,233,0.08)" strokeWidth={1} />
+          {countryPaths.map((d, i) => (
+            <path key={i} d={d} fill="#1e293b" stroke="#334155" strokeWidth={0.5} />
+          ))}
+
+          {lines.map(line => {
+            const a = project(line.from);
+            const b = project(line.to);
+            if (!a || !b) return null;
+            return (
+              <g key={line.id}>
+                <line x1={a[0]} y1={a[1]} x2={b[0]} y2={b[1]} stroke={line.color} strokeWidth={1.5} strokeDasharray="4 3" />
+                {line.label && (
+                  <text x={(a[0] + b[0]) / 2} y={(a[1] + b[1]) / 2 - 4} fill={line.color} fontSize={10} textAnchor="middle" fontFamily="monospace">
+                    {line.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {markers.map(marker => {
+            const p = project(marker.point);
+            if (!p) return null;
+            return (
+              <g
+                key={marker.id}
+                transform={`translate(${p[0]},${p[1]})`}
+                onMouseUp={e => { if (marker.onClick && !dragRef.current?.moved) { e.stopPropagation(); dragRef.current = null; marker.onClick(); } }}
+                className={marker.onClick ? 'cursor-pointer' : ''}
+              >
+                <title>{marker.label}</title>
+                {marker.shape === 'diamond' ? (
+                  <rect x={-5} y={-5} width={10} height={10} transform="rotate(45)" fill={marker.color} stroke="#000" strokeWidth={1} />
+                ) : (
+                  <circle r={6} fill={marker.color} stroke="#000" strokeWidth={1.5} />
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      <div className="absolute top-3 right-3 flex flex-col gap-1 z-10">
+        <button type="button" onClick={() => zoomAt(1.5)} className="p-1.5 rounded bg-slate-900/90 border border-slate-700 text-slate-300 hover:text-white"><Plus className="w-4 h-4" /></button>
+        <button type="button" onClick={() => zoomAt(1 / 1.5)} className="p-1.5 rounded bg-slate-900/90 border border-slate-700 text-slate-300 hover:text-white"><Minus className="w-4 h-4" /></button>
+        <button type="button" onClick={fitView} title="Fit markers" className="p-1.5 rounded bg-slate-900/90 border border-slate-700 text-slate-300 hover:text-white"><Maximize2 className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
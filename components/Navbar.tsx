@@ -1,19 +1,32 @@
 
 import React from 'react';
-import { UserPlus, Users, ScanEye, ShieldAlert } from 'lucide-react';
-import { AppView } from '../types';
+import { UserPlus, Users, ScanEye, ShieldAlert, ClipboardCheck, LayoutDashboard, Map, Cctv, ScrollText, SlidersHorizontal, UserCog, LogOut, UserSearch } from 'lucide-react';
+import { AppView, UserAccount } from '../types';
+import { recognitionProvider } from '../services/recognition';
+import { ROLE_LABELS, canView } from '../services/auth';
 
 interface NavbarProps {
   currentView: AppView;
   setView: (view: AppView) => void;
+  pendingReviews: number;
+  user: UserAccount;
+  onSignOut: () => void;
 }
 
-export const Navbar: React.FC<NavbarProps> = ({ currentView, setView }) => {
+export const Navbar: React.FC<NavbarProps> = ({ currentView, setView, pendingReviews, user, onSignOut }) => {
   const navItems = [
+    { id: AppView.HOME, label: 'Dashboard', icon: LayoutDashboard },
     { id: AppView.REPORT, label: 'Report Missing', icon: UserPlus },
     { id: AppView.DIRECTORY, label: 'Directory', icon: Users },
     { id: AppView.SCAN, label: 'Active Scan', icon: ScanEye },
-  ];
+    { id: AppView.CAMERAS, label: 'Camera Grid', icon: Cctv },
+    { id: AppView.IDENTIFY, label: 'Identify Found', icon: UserSearch },
+    { id: AppView.REVIEW, label: 'Match Review', icon: ClipboardCheck, badge: pendingReviews },
+    { id: AppView.MAP, label: 'Sightings Map', icon: Map },
+    { id: AppView.SESSIONS, label: 'Scan Sessions', icon: ScrollText },
+    { id: AppView.SETTINGS, label: 'Settings', icon: SlidersHorizontal },
+    { id: AppView.USERS, label: 'Users', icon: UserCog },
+  ].filter(item => canView(user, item.id));
 
   return (
     <nav className="w-20 lg:w-64 bg-slate-900 border-r border-slate-800 h-screen flex flex-col justify-between shrink-0 transition-all duration-300">
@@ -40,6 +53,9 @@ export const Navbar: React.FC<NavbarProps> = ({ currentView, setView }) => {
               >
                 <Icon className={`w-6 h-6 ${isActive ? 'animate-pulse' : ''}`} />
                 <span className="hidden lg:block ml-3 font-medium">{item.label}</span>
+                {!!item.badge && (
+                  <span className="ml-auto lg:ml-2 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-yellow-400 text-black">{item.badge}</span>
+                )}
                 {isActive && (
                   <div className="ml-auto w-1.5 h-1.5 rounded-full bg-neon-blue shadow-[0_0_10px_#0ea5e9]" />
                 )}
@@ -49,12 +65,21 @@ export const Navbar: React.FC<NavbarProps> = ({ currentView, setView }) => {
         </div>
       </div>
 
-      <div className="p-4 border-t border-slate-800">
+      <div className="p-4 border-t border-slate-800 space-y-3">
+        <div className="flex items-center gap-3 justify-center lg:justify-start">
+          <div className="hidden lg:block flex-1 min-w-0">
+            <p className="text-sm text-white font-medium truncate">{user.displayName}</p>
+            <p className="text-[10px] text-slate-500 uppercase font-bold">{ROLE_LABELS[user.role]}</p>
+          </div>
+          <button onClick={onSignOut} title="Sign out" className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-white">
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
         <div className="hidden lg:block p-4 rounded-xl bg-slate-950/50 border border-slate-800">
             <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">System Status</h4>
             <div className="flex items-center gap-2 text-xs text-green-400">
                 <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                Gemini Vision v2.5 Online
+                {recognitionProvider.label} Online
             </div>
         </div>
       </div>
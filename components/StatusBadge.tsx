@@ -0,0 +1,20 @@
+import React from 'react';
+import { CaseStatus } from '../types';
+
+const STATUS_BADGE_STYLES: Record<CaseStatus, string> = {
+  MISSING: 'bg-red-500/20 border-red-500/50 text-red-200',
+  SIGHTED: 'bg-yellow-500/20 border-yellow-500/50 text-yellow-200',
+  FOUND: 'bg-green-500/20 border-green-500/50 text-green-200',
+  CLOSED: 'bg-slate-500/20 border-slate-500/50 text-slate-300',
+};
+
+const SIZES = {
+  sm: 'text-[10px] px-2 py-1',
+  md: 'text-xs px-3 py-1',
+};
+
+export const StatusBadge: React.FC<{ status: CaseStatus; size?: keyof typeof SIZES; className?: string }> = ({ status, size = 'md', className = '' }) => (
+  <span className={`font-bold rounded-full border ${SIZES[size]} ${STATUS_BADGE_STYLES[status]} ${className}`}>
+    {status}
+  </span>
+);
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Flag, X } from 'lucide-react';
+import { CaseStatus, Person } from '../types';
+import { CLOSURE_REASONS, STATUS_LABELS, allowedTransitions, checkTransition, isOpenStatus, requiresReason, statusHistory } from '../services/caseStatus';
+import { StatusBadge } from './StatusBadge';
+
+interface StatusPanelProps {
+  person: Person;
+  canEdit: boolean;
+  onChangeStatus: (status: CaseStatus, reason: string) => void;
+}
+
+const actionLabel = (from: CaseStatus, to: CaseStatus) => {
+  if (!isOpenStatus(from)) return 'Reopen';
+  if (to === 'MISSING') return 'Clear sighting';
+  if (to === 'SIGHTED') return 'Mark sighted';
+  return to === 'FOUND' ? 'Close as found' : 'Close (other)';
+};
+
+/**
+ * Current case status, the moves the lifecycle allows from it, and every
+ * past status change with its reason.
+ */
+export const StatusPanel: React.FC<StatusPanelProps> = ({ person, canEdit, onChangeStatus }) => {
+  const [target, setTarget] = useState<CaseStatus | null>(null);
+  const [reason, setReason] = useState('');
+
+  const history = statusHistory(person).reverse();
+  const problem = target && checkTransition(person.status, target, reason);
+
+  const choose = (status: CaseStatus) => {
+    setTarget(status);
+    setReason('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target || problem) return;
+    onChangeStatus(target, reason.trim());
+    setTarget(null);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <Flag className="w-5 h-5 text-neon-blue" /> Case Status
+        <StatusBadge status={person.status} className="ml-auto" />
+      </h3>
+
+      {canEdit && (
+        <div className="flex flex-wrap gap-2">
+          {allowedTransitions(person.status).map(status => (
+            <button
+              key={status}
+              onClick={() => choose(status)}
+              className={`text-xs px-3 py-1.5 rounded border ${target === status ? 'border-neon-blue text-neon-blue bg-neon-blue/10' : 'border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+            >
+              {actionLabel(person.status, status)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {target && (
+        <form onSubmit={handleSubmit} className="space-y-2 border border-slate-800 rounded-lg p-3">
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span>{STATUS_LABELS[person.status]} → <span className="text-white font-bold">{STATUS_LABELS[target]}</span></span>
+            <button type="button" onClick={() => setTarget(null)} className="text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+          </div>
+          <input
+            autoFocus
+            type="text"
+            list={target === 'CLOSED' ? 'closure-reasons' : undefined}
+            placeholder={requiresReason(person.status, target) ? 'Reason (required)' : 'Reason (optional)'}
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white focus:border-neon-blue outline-none"
+          />
+          <datalist id="closure-reasons">
+            {CLOSURE_REASONS.map(r => <option key={r} value={r} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={!!problem}
+            title={problem || undefined}
+            className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-2 rounded text-xs disabled:opacity-50"
+          >
+            Change Status
+          </button>
+        </form>
+      )}
+
+      {history.length > 0 && (
+        <ul className="space-y-2 text-xs">
+          {history.map(event => (
+            <li key={event.id} className="border-l-2 border-slate-700 pl-3">
+              <p className="text-slate-300">
+                {event.fromStatus} → <span className="font-bold text-white">{event.toStatus}</span>
+              </p>
+              {event.details && <p className="text-slate-400 italic">{event.details}</p>}
+              <p className="text-[10px] font-mono text-slate-500">
+                {new Date(event.timestamp).toLocaleString()}{event.actor && ` · ${event.actor.name}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,280 @@
+import React, { useMemo, useState } from 'react';
+import { CameraSource, GeoPoint, MatchCandidate, Person, ScanSession, SessionLogEntry } from '../types';
+import { Cctv, Plus, Save, Trash2, Play, StopCircle, RefreshCw, X } from 'lucide-react';
+import { FeedTile } from '../components/FeedTile';
+import { LocationPicker } from '../components/LocationPicker';
+import { ChangeDetectionSettings } from '../components/ChangeDetectionSettings';
+import { createRequestBudget } from '../services/batching';
+import { DEFAULT_BATCH_OPTIONS } from '../services/recognition';
+import { ChangeDetectionOptions, DEFAULT_CHANGE_DETECTION } from '../services/frames';
+import { MatchPolicy } from '../services/matchPolicy';
+import { isOpenStatus } from '../services/caseStatus';
+import { DEFAULT_REQUEST_BUDGET, DEFAULT_SCAN_INTERVAL_SEC, createCamera, listVideoDevices } from '../services/cameras';
+
+interface CamerasProps {
+  cameras: CameraSource[];
+  people: Person[];
+  candidates: MatchCandidate[];
+  canManage: boolean; // Register, edit and remove cameras; feeds can be run either way
+  onSaveCamera: (camera: CameraSource) => void;
+  onDeleteCamera: (id: string) => void;
+  onMatchCandidate: (candidate: MatchCandidate) => void;
+  onSessionChange: (session: ScanSession) => void;
+  onLogEntry: (entry: SessionLogEntry) => void;
+  matchPolicy: MatchPolicy;
+}
+
+interface CameraDraft {
+  id?: string; // Set when editing an existing camera
+  name: string;
+  kind: CameraSource['kind'];
+  deviceId: string;
+  streamUrl: string;
+  location?: GeoPoint;
+  scanIntervalSec: number;
+}
+
+const EMPTY_DRAFT: CameraDraft = {
+  name: '',
+  kind: 'device',
+  deviceId: '',
+  streamUrl: '',
+  scanIntervalSec: DEFAULT_SCAN_INTERVAL_SEC,
+};
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white focus:border-neon-blue outline-none";
+
+export const Cameras: React.FC<CamerasProps> = ({ cameras, people, candidates, canManage, onSaveCamera, onDeleteCamera, onMatchCandidate, onSessionChange, onLogEntry, matchPolicy }) => {
+  // Same target set as the Scan page
+  const targets = people.filter(p => isOpenStatus(p.status));
+  const pendingPersonIds = useMemo(
+    () => new Set(candidates.filter(c => c.status === 'PENDING').map(c => c.personId)),
+    [candidates]
+  );
+
+  const [draft, setDraft] = useState<CameraDraft | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [running, setRunning] = useState<Set<string>>(new Set());
+  const [budgetLimit, setBudgetLimit] = useState(DEFAULT_REQUEST_BUDGET);
+  const budget = useMemo(() => createRequestBudget(budgetLimit), [budgetLimit]);
+  const [changeOptions, setChangeOptions] = useState<ChangeDetectionOptions>(DEFAULT_CHANGE_DETECTION);
+
+  const detectDevices = async () => {
+    try {
+      setDevices(await listVideoDevices(true));
+    } catch (err) {
+      console.error("Could not list cameras:", err);
+      alert("Could not access cameras. Check browser permissions.");
+    }
+  };
+
+  const editCamera = (camera: CameraSource) => {
+    setDraft({
+      id: camera.id,
+      name: camera.name,
+      kind: camera.kind,
+      deviceId: camera.deviceId || '',
+      streamUrl: camera.streamUrl || '',
+      location: camera.location,
+      scanIntervalSec: camera.scanIntervalSec,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const fields = {
+      name: draft.name.trim(),
+      kind: draft.kind,
+      deviceId: draft.kind === 'device' ? draft.deviceId || undefined : undefined,
+      streamUrl: draft.kind === 'url' ? draft.streamUrl.trim() : undefined,
+      location: draft.location,
+      scanIntervalSec: draft.scanIntervalSec,
+    };
+    const existing = draft.id ? cameras.find(c => c.id === draft.id) : undefined;
+    onSaveCamera(existing ? { ...existing, ...fields } : createCamera(fields));
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Remove this camera from the registry?")) return;
+    setRunning(prev => { const next = new Set(prev); next.delete(id); return next; });
+    onDeleteCamera(id);
+    setDraft(null);
+  };
+
+  const toggleFeed = (id: string) => {
+    setRunning(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="p-6 lg:p-10 w-full">
+      <header className="flex flex-col md:flex-row justify-between items-start md:items-end mb-8 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <Cctv className="text-neon-blue w-8 h-8" />
+            Camera Grid
+          </h1>
+          <p className="text-slate-400">Registered feeds scanned concurrently against {targets.length} active cases.</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="w-48">
+            <ChangeDetectionSettings value={changeOptions} onChange={setChangeOptions} />
+          </div>
+          <label className="text-[10px] text-slate-400 space-y-1">
+            <span className="block">Request budget</span>
+            <input
+              type="number"
+              min={1}
+              max={16}
+              value={budgetLimit}
+              onChange={e => setBudgetLimit(Math.max(1, Number(e.target.value) || 1))}
+              className={`${inputClass} w-24 font-mono`}
+            />
+          </label>
+          <button
+            onClick={() => setRunning(new Set(cameras.map(c => c.id)))}
+            disabled={cameras.length === 0}
+            className="bg-neon-blue/20 text-neon-blue hover:bg-neon-blue hover:text-white border border-neon-blue/50 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" /> START ALL
+          </button>
+          <button
+            onClick={() => setRunning(new Set())}
+            disabled={running.size === 0}
+            className="bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white border border-red-500/50 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all disabled:opacity-50"
+          >
+            <StopCircle className="w-4 h-4" /> STOP ALL
+          </button>
+          {canManage && (
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="border border-slate-700 text-slate-300 hover:bg-slate-800 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" /> ADD CAMERA
+            </button>
+          )}
+        </div>
+      </header>
+
+      {/* Registry form */}
+      {draft && canManage && (
+        <form onSubmit={handleSubmit} className="bg-slate-900 border border-slate-800 rounded-2xl p-6 mb-8 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-white">{draft.id ? 'Edit Camera' : 'Register Camera'}</h3>
+            <button type="button" onClick={() => setDraft(null)} className="text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+          </div>
+
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Name</span>
+            <input required type="text" placeholder="Central Station - Gate 3" className={inputClass}
+              value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+          </label>
+
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Scan interval (seconds)</span>
+            <input required type="number" min={1} max={300} className={`${inputClass} font-mono`}
+              value={draft.scanIntervalSec}
+              onChange={e => setDraft({ ...draft, scanIntervalSec: Math.max(1, Number(e.target.value) || 1) })} />
+          </label>
+
+          <div className="text-xs text-slate-400 space-y-1">
+            <span>Source</span>
+            <div className="grid grid-cols-2 gap-2">
+              {(['device', 'url'] as const).map(kind => (
+                <button key={kind} type="button" onClick={() => setDraft({ ...draft, kind })}
+                  className={`py-2 rounded border transition-colors ${draft.kind === kind ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}>
+                  {kind === 'device' ? 'Local Device' : 'Stream URL'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {draft.kind === 'device' ? (
+            <div className="text-xs text-slate-400 space-y-1">
+              <span>Device</span>
+              <div className="flex gap-2">
+                <select className={inputClass} value={draft.deviceId} onChange={e => setDraft({ ...draft, deviceId: e.target.value })}>
+                  <option value="">Default camera</option>
+                  {draft.deviceId && !devices.some(d => d.deviceId === draft.deviceId) && (
+                    <option value={draft.deviceId}>Saved device ({draft.deviceId.slice(0, 8)}…)</option>
+                  )}
+                  {devices.map((device, i) => (
+                    <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${i + 1}`}</option>
+                  ))}
+                </select>
+                <button type="button" onClick={detectDevices} title="Detect cameras"
+                  className="px-3 rounded border border-slate-700 text-slate-400 hover:text-neon-blue hover:border-neon-blue">
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ) : (
+            <label className="text-xs text-slate-400 space-y-1">
+              <span>Stream URL</span>
+              <input required type="url" placeholder="https://..." className={inputClass}
+                value={draft.streamUrl} onChange={e => setDraft({ ...draft, streamUrl: e.target.value })} />
+              <span className="block text-[10px] text-slate-500">Must be playable by the browser and served with CORS headers.</span>
+            </label>
+          )}
+
+          <div className="md:col-span-2 text-xs text-slate-400 space-y-1">
+            <span>Location</span>
+            <LocationPicker value={draft.location} onChange={location => setDraft(prev => prev && { ...prev, location })} inputClassName={inputClass} />
+          </div>
+
+          <div className="md:col-span-2 flex gap-3">
+            {draft.id && (
+              <button type="button" onClick={() => handleDelete(draft.id!)}
+                className="border border-red-500/50 text-red-400 hover:bg-red-500/20 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2">
+                <Trash2 className="w-4 h-4" /> Remove
+              </button>
+            )}
+            <button type="submit" className="flex-1 bg-neon-blue hover:bg-blue-500 text-white font-bold py-2 rounded-lg text-xs flex items-center justify-center gap-2">
+              <Save className="w-4 h-4" /> Save Camera
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Feed grid */}
+      {cameras.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-slate-500 border-2 border-dashed border-slate-800 rounded-2xl">
+          <Cctv className="w-16 h-16 mb-4 opacity-50" />
+          <p>No cameras registered yet.</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-[10px] font-mono text-slate-500 mb-3">
+            {running.size} of {cameras.length} feeds active · max {budgetLimit} requests in flight
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 2xl:grid-cols-3 gap-6">
+            {cameras.map(camera => (
+              <FeedTile
+                key={camera.id}
+                camera={camera}
+                targets={targets}
+                pendingPersonIds={pendingPersonIds}
+                active={running.has(camera.id)}
+                budget={budget}
+                batchOptions={DEFAULT_BATCH_OPTIONS}
+                changeOptions={changeOptions}
+                matchPolicy={matchPolicy}
+                onToggle={() => toggleFeed(camera.id)}
+                onEdit={canManage ? () => editCamera(camera) : undefined}
+                onMatchCandidate={onMatchCandidate}
+                onSessionChange={onSessionChange}
+                onLogEntry={onLogEntry}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
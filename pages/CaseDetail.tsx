@@ -0,0 +1,315 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Person, CaseEvent, MatchCandidate, Evidence, CaseStatus } from '../types';
+import { ArrowLeft, Save, Shirt, ImagePlus, Star, Trash2, FileText, Pencil, Camera, ScanEye, Flag, History, Printer, FileDown, Loader2 } from 'lucide-react';
+import { sortTimeline } from '../services/caseTimeline';
+import { LocationPicker } from '../components/LocationPicker';
+import { EvidencePanel } from '../components/EvidencePanel';
+import { StatusPanel } from '../components/StatusPanel';
+import { StatusBadge } from '../components/StatusBadge';
+import { isOpenStatus } from '../services/caseStatus';
+import { PosterSettings, createCaseReportPdf, createPosterPdf } from '../services/casePdf';
+import { downloadFile } from '../services/caseTransfer';
+import { QrCapacityError } from '../services/qrCode';
+
+interface CaseDetailProps {
+  person: Person;
+  candidates: MatchCandidate[];
+  posterSettings: PosterSettings;
+  loadEvidence: (personId: string) => Promise<Evidence[]>;
+  canEdit: boolean; // Otherwise the record is shown read-only
+  onSave: (person: Person) => void;
+  onChangeStatus: (status: CaseStatus, reason: string) => void;
+  onBack: () => void;
+}
+
+const EVENT_ICONS: Record<CaseEvent['type'], React.FC<{ className?: string }>> = {
+  REPORTED: FileText,
+  EDITED: Pencil,
+  PHOTO_ADDED: Camera,
+  SCAN_HIT: ScanEye,
+  STATUS_CHANGED: Flag,
+};
+
+// What this page edits; status and timeline always follow the saved record
+const DRAFT_FIELDS: (keyof Person)[] = [
+  'name', 'age', 'lastSeenLocation', 'lastSeenCoordinates', 'lastSeenDate', 'lastSeenClothing', 'description', 'imageUrl', 'images',
+];
+
+// The draft fields that differ between two versions of a record
+const changedFields = (from: Person, to: Person): Partial<Person> =>
+  Object.fromEntries(DRAFT_FIELDS
+    .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map(field => [field, to[field]]));
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-white focus:border-neon-blue focus:ring-1 focus:ring-neon-blue outline-none transition-all";
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const CaseDetail: React.FC<CaseDetailProps> = ({ person, candidates, posterSettings, loadEvidence, canEdit, onSave, onChangeStatus, onBack }) => {
+  const [draft, setDraft] = useState<Person>(person);
+  const [generating, setGenerating] = useState<'POSTER' | 'REPORT' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const saved = useRef(person); // The record the draft's edits are relative to
+
+  // Pick up changes made elsewhere (e.g. a scan hit) while the page is open, keeping unsaved edits
+  useEffect(() => {
+    const before = saved.current;
+    saved.current = person;
+    setDraft(prev => prev.id === person.id ? { ...person, ...changedFields(before, prev) } : person);
+  }, [person]);
+
+  const [evidence, setEvidence] = useState<Evidence[]>([]);
+  const [loadingEvidence, setLoadingEvidence] = useState(false);
+
+  // Every scan hit also adds a timeline event, so reload when the timeline grows
+  useEffect(() => {
+    let stale = false;
+    setLoadingEvidence(true);
+    loadEvidence(person.id)
+      .then(items => { if (!stale) setEvidence(items); })
+      .catch(err => {
+        console.error("Failed to load evidence:", err);
+        if (!stale) setEvidence([]);
+      })
+      .finally(() => { if (!stale) setLoadingEvidence(false); });
+    return () => { stale = true; };
+  }, [person.id, person.timeline.length]);
+
+  const isDirty = Object.keys(changedFields(person, draft)).length > 0;
+  const gallery = [draft.imageUrl, ...draft.images];
+
+  const handleAddPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    const photos = await Promise.all(files.map(readAsDataUrl));
+    setDraft(prev => ({ ...prev, images: [...prev.images, ...photos] }));
+    e.target.value = '';
+  };
+
+  const makePrimary = (image: string) => {
+    setDraft(prev => ({
+      ...prev,
+      imageUrl: image,
+      images: [prev.imageUrl, ...prev.images.filter(img => img !== image)],
+    }));
+  };
+
+  const removePhoto = (image: string) => {
+    setDraft(prev => ({ ...prev, images: prev.images.filter(img => img !== image) }));
+  };
+
+  // Documents are built from the saved record, not unsaved edits
+  const handleGenerate = async (kind: 'POSTER' | 'REPORT') => {
+    setGenerating(kind);
+    try {
+      const slug = person.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'case';
+      const blob = kind === 'POSTER'
+        ? await createPosterPdf(person, posterSettings)
+        : await createCaseReportPdf(person, candidates, posterSettings);
+      downloadFile({ blob, filename: `${slug}-${kind === 'POSTER' ? 'poster' : 'case-report'}.pdf` });
+    } catch (err) {
+      console.error("PDF generation failed:", err);
+      if (err instanceof QrCapacityError) {
+        alert(`This case's link is too long for a QR code. ${err.message}\n\nShorten the case link address in Settings, or share the case as a file with Export in the Directory instead.`);
+      } else {
+        alert("Could not generate the PDF.");
+      }
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="p-6 lg:p-10 w-full max-w-6xl mx-auto animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <button onClick={onBack} className="flex items-center gap-2 text-sm text-slate-400 hover:text-white mb-6">
+        <ArrowLeft className="w-4 h-4" /> Back to Directory
+      </button>
+
+      <header className="flex justify-between items-start mb-8 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">{person.name}</h1>
+          <p className="text-slate-500 font-mono text-xs">CASE {person.id}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => handleGenerate('POSTER')}
+            disabled={!!generating || !isOpenStatus(person.status)}
+            title={isOpenStatus(person.status) ? 'Printable missing-person poster' : 'Case is closed'}
+            className="text-xs flex items-center gap-2 px-3 py-2 rounded border border-slate-700 text-slate-300 hover:bg-slate-800 disabled:opacity-50"
+          >
+            {generating === 'POSTER' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />} Poster PDF
+          </button>
+          <button
+            onClick={() => handleGenerate('REPORT')}
+            disabled={!!generating}
+            className="text-xs flex items-center gap-2 px-3 py-2 rounded border border-slate-700 text-slate-300 hover:bg-slate-800 disabled:opacity-50"
+          >
+            {generating === 'REPORT' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />} Case Report
+          </button>
+          <StatusBadge status={person.status} />
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 pb-8">
+        {/* Record + Gallery */}
+        <form onSubmit={handleSubmit} className="lg:col-span-2">
+          <fieldset disabled={!canEdit} className="space-y-8 min-w-0">
+            <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">Reference Photos</h3>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="text-xs flex items-center gap-2 px-3 py-2 rounded border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/10"
+                >
+                  <ImagePlus className="w-4 h-4" /> Add Photos
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={handleAddPhotos}
+                />
+              </div>
+              <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                {gallery.map((image, i) => (
+                  <div key={i} className={`relative group rounded-lg overflow-hidden border ${i === 0 ? 'border-neon-blue' : 'border-slate-700'}`}>
+                    <img src={image} alt={`${draft.name} reference ${i + 1}`} className="w-full h-28 object-cover" />
+                    {i === 0 ? (
+                      <div className="absolute bottom-0 left-0 w-full bg-neon-blue/80 text-[10px] text-black font-bold p-1 text-center">PRIMARY</div>
+                    ) : (
+                      <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                        <button type="button" title="Set as primary" onClick={() => makePrimary(image)} className="p-1.5 rounded bg-slate-800 text-neon-blue hover:bg-slate-700">
+                          <Star className="w-4 h-4" />
+                        </button>
+                        <button type="button" title="Remove" onClick={() => removePhoto(image)} className="p-1.5 rounded bg-slate-800 text-red-400 hover:bg-slate-700">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800 space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-400">Full Name</label>
+                  <input required type="text" className={inputClass} value={draft.name}
+                    onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-slate-400">Age</label>
+                  <input required type="number" className={inputClass} value={draft.age}
+                    onChange={e => setDraft({ ...draft, age: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-400">Last Seen Location</label>
+                <input required type="text" className={inputClass} value={draft.lastSeenLocation}
+                  onChange={e => setDraft({ ...draft, lastSeenLocation: e.target.value })} />
+                <LocationPicker
+                  value={draft.lastSeenCoordinates}
+                  onChange={lastSeenCoordinates => setDraft(prev => ({ ...prev, lastSeenCoordinates }))}
+                  inputClassName={inputClass}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-400">Date Missing</label>
+                <input required type="date" className={inputClass} value={draft.lastSeenDate}
+                  onChange={e => setDraft({ ...draft, lastSeenDate: e.target.value })} />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-neon-blue flex items-center gap-2">
+                  <Shirt className="w-4 h-4" />
+                  Last Seen Wearing
+                </label>
+                <input required type="text" className={inputClass} value={draft.lastSeenClothing}
+                  onChange={e => setDraft({ ...draft, lastSeenClothing: e.target.value })} />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-400">Biometric Features</label>
+                <textarea rows={3} className={`${inputClass} resize-none text-sm`} value={draft.description}
+                  onChange={e => setDraft({ ...draft, description: e.target.value })} />
+              </div>
+
+              {canEdit ? (
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    disabled={!isDirty}
+                    onClick={() => setDraft(person)}
+                    className="flex-1 border border-slate-700 text-slate-300 hover:bg-slate-800 font-bold py-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Discard Changes
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!isDirty}
+                    className="flex-1 bg-neon-blue hover:bg-blue-500 text-white font-bold py-3 rounded-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Save className="w-4 h-4" /> Save Changes
+                  </button>
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500 text-center">Read-only: your role can't edit cases.</p>
+              )}
+            </div>
+          </fieldset>
+        </form>
+
+        {/* Status + Timeline */}
+        <div className="space-y-8 h-fit">
+          <StatusPanel person={person} canEdit={canEdit} onChangeStatus={onChangeStatus} />
+
+          <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-white mb-6 flex items-center gap-2">
+              <History className="w-5 h-5 text-neon-blue" /> Case Timeline
+            </h3>
+            <ol className="relative border-l border-slate-800 ml-3 space-y-6">
+              {sortTimeline(person.timeline).map(event => {
+                const Icon = EVENT_ICONS[event.type];
+                return (
+                  <li key={event.id} className="ml-6">
+                    <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-slate-800 border border-slate-700">
+                      <Icon className="w-3 h-3 text-neon-blue" />
+                    </span>
+                    <p className="text-sm text-white font-medium">{event.summary}</p>
+                    <time className="text-[10px] font-mono text-slate-500">
+                      {new Date(event.timestamp).toLocaleString()}{event.actor && ` · ${event.actor.name}`}
+                    </time>
+                    {event.details && (
+                      <p className="text-xs text-slate-400 mt-1 whitespace-pre-line">{event.details}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </div>
+
+        <div className="lg:col-span-3">
+          <EvidencePanel person={person} evidence={evidence} candidates={candidates} loading={loadingEvidence} />
+        </div>
+      </div>
+    </div>
+  );
+};
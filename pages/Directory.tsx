@@ -1,12 +1,83 @@
-import React from 'react';
+import React, { useState, useMemo, useDeferredValue, useEffect, useRef } from 'react';
 import { Person } from '../types';
-import { MapPin, Calendar, User, Shirt } from 'lucide-react';
+import { MapPin, Calendar, User, Shirt, Search, X, ChevronLeft, ChevronRight, SearchX, Download, FileUp } from 'lucide-react';
+import { ImportPanel } from '../components/ImportPanel';
+import { StatusBadge } from '../components/StatusBadge';
+import { CASE_STATUSES } from '../services/caseStatus';
+import { ExportFormat, ImportMerge, ImportPlan, PhotoMode, downloadFile, exportPeople, parseImportFile } from '../services/caseTransfer';
+import { DirectoryQuery, DirectorySort, EMPTY_QUERY, SORT_LABELS, indexPeople, isQueryActive, queryPeople } from '../services/directoryQuery';
+
+const PAGE_SIZE = 24;
+
+const filterInputClass = "bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-white focus:border-neon-blue outline-none";
+
+// Empty input clears the bound
+const parseAge = (value: string) => value === '' ? undefined : Math.max(0, Number(value));
 
 interface DirectoryProps {
   people: Person[];
+  onOpenCase: (id: string) => void;
+  onImport: (merge: ImportMerge) => Promise<void>;
+  canImport: boolean;
 }
 
-export const Directory: React.FC<DirectoryProps> = ({ people }) => {
+export const Directory: React.FC<DirectoryProps> = ({ people, onOpenCase, onImport, canImport }) => {
+  const [query, setQuery] = useState<DirectoryQuery>(EMPTY_QUERY);
+  const [page, setPage] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [photoMode, setPhotoMode] = useState<PhotoMode>('embedded');
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep typing responsive on large directories; results catch up a frame later
+  const deferredQuery = useDeferredValue(query);
+  const index = useMemo(() => indexPeople(people), [people]);
+  const results = useMemo(() => queryPeople(index, deferredQuery), [index, deferredQuery]);
+
+  const pageCount = Math.max(1, Math.ceil(results.length / PAGE_SIZE));
+  const pageResults = results.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  useEffect(() => {
+    setPage(0);
+  }, [query]);
+
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  // Exports what the filters currently show
+  const handleExport = () => {
+    downloadFile(exportPeople(results, exportFormat, photoMode));
+    setExportOpen(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file after fixing it
+    if (!file) return;
+    try {
+      setImportPlan(await parseImportFile(file, people));
+    } catch (err) {
+      console.error("Import failed:", err);
+      alert(`Could not read ${file.name}: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleImport = async (merge: ImportMerge) => {
+    await onImport(merge);
+    setImportPlan(null);
+  };
+
+  const toggleStatus = (status: Person['status']) => {
+    setQuery(prev => ({
+      ...prev,
+      statuses: prev.statuses.includes(status)
+        ? prev.statuses.filter(s => s !== status)
+        : [...prev.statuses, status],
+    }));
+  };
+
   return (
     <div className="p-6 lg:p-10 w-full">
       <header className="flex justify-between items-center mb-8">
@@ -14,35 +85,158 @@ export const Directory: React.FC<DirectoryProps> = ({ people }) => {
             <h1 className="text-3xl font-bold text-white mb-2">Directory</h1>
             <p className="text-slate-400">Active missing person database.</p>
         </div>
-        <div className="text-slate-500 font-mono text-sm">
-            Records: {people.length}
+        <div className="flex items-center gap-3">
+          <div className="text-slate-500 font-mono text-sm">
+              Records: {isQueryActive(query) ? `${results.length} / ${people.length}` : people.length}
+          </div>
+          {canImport && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="border border-slate-700 text-slate-300 hover:bg-slate-800 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2"
+              >
+                <FileUp className="w-4 h-4" /> Import
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,.csv,.zip" className="hidden" onChange={handleImportFile} />
+            </>
+          )}
+          <div className="relative">
+            <button
+              onClick={() => setExportOpen(open => !open)}
+              disabled={results.length === 0}
+              className="border border-slate-700 text-slate-300 hover:bg-slate-800 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" /> Export
+            </button>
+            {exportOpen && (
+              <div className="absolute right-0 mt-2 w-64 bg-slate-900 border border-slate-700 rounded-lg p-4 space-y-3 z-20 shadow-xl text-xs text-slate-400">
+                <div className="space-y-1">
+                  <span>Format</span>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['json', 'csv'] as const).map(format => (
+                      <button key={format} onClick={() => setExportFormat(format)}
+                        className={`py-1.5 rounded border font-bold uppercase transition-colors ${exportFormat === format ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 hover:bg-slate-800'}`}>
+                        {format}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <span>Photos</span>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['embedded', 'zip'] as const).map(mode => (
+                      <button key={mode} onClick={() => setPhotoMode(mode)}
+                        className={`py-1.5 rounded border font-bold transition-colors ${photoMode === mode ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 hover:bg-slate-800'}`}>
+                        {mode === 'embedded' ? 'Embedded' : 'Separate (ZIP)'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <button onClick={handleExport} className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-2 rounded-lg flex items-center justify-center gap-2">
+                  <Download className="w-4 h-4" /> Download {results.length} record{results.length === 1 ? '' : 's'}
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       </header>
 
+      {importPlan && (
+        <ImportPanel plan={importPlan} people={people} onImport={handleImport} onClose={() => setImportPlan(null)} />
+      )}
+
+      {people.length > 0 && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 mb-6 space-y-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+              <input
+                type="search"
+                placeholder="Search name, location, clothing, biometrics..."
+                className={`${filterInputClass} w-full pl-9`}
+                value={query.text}
+                onChange={e => setQuery({ ...query, text: e.target.value })}
+              />
+            </div>
+            <select
+              className={filterInputClass}
+              value={query.sort}
+              onChange={e => setQuery({ ...query, sort: e.target.value as DirectorySort })}
+            >
+              {(Object.keys(SORT_LABELS) as DirectorySort[]).map(key => (
+                <option key={key} value={key}>{SORT_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <div className="flex items-center gap-2">
+              {CASE_STATUSES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => toggleStatus(status)}
+                  className={`px-3 py-1 rounded-full border font-bold transition-colors ${query.statuses.includes(status) ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 hover:bg-slate-800'}`}
+                >
+                  {status}
+                </button>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2">
+              Age
+              <input type="number" min={0} placeholder="min" className={`${filterInputClass} w-20`}
+                value={query.minAge ?? ''} onChange={e => setQuery({ ...query, minAge: parseAge(e.target.value) })} />
+              –
+              <input type="number" min={0} placeholder="max" className={`${filterInputClass} w-20`}
+                value={query.maxAge ?? ''} onChange={e => setQuery({ ...query, maxAge: parseAge(e.target.value) })} />
+            </label>
+
+            <label className="flex items-center gap-2">
+              Last seen
+              <input type="date" className={filterInputClass}
+                value={query.seenFrom ?? ''} onChange={e => setQuery({ ...query, seenFrom: e.target.value || undefined })} />
+              –
+              <input type="date" className={filterInputClass}
+                value={query.seenTo ?? ''} onChange={e => setQuery({ ...query, seenTo: e.target.value || undefined })} />
+            </label>
+
+            {isQueryActive(query) && (
+              <button onClick={() => setQuery({ ...EMPTY_QUERY, sort: query.sort })} className="flex items-center gap-1 text-slate-400 hover:text-white ml-auto">
+                <X className="w-3 h-3" /> Clear filters
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {people.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-96 text-slate-500 border-2 border-dashed border-slate-800 rounded-2xl">
             <User className="w-16 h-16 mb-4 opacity-50" />
             <p>No records in the database.</p>
         </div>
+      ) : results.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-slate-500 border-2 border-dashed border-slate-800 rounded-2xl">
+            <SearchX className="w-12 h-12 mb-4 opacity-50" />
+            <p>No records match the current filters.</p>
+        </div>
       ) : (
+        <>
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-          {people.map((person) => (
-            <div key={person.id} className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden hover:border-neon-blue/50 transition-all duration-300 group">
+          {pageResults.map((person) => (
+            <div
+              key={person.id}
+              onClick={() => onOpenCase(person.id)}
+              className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden hover:border-neon-blue/50 transition-all duration-300 group cursor-pointer"
+            >
               <div className="relative h-48 overflow-hidden">
                 <img 
                     src={person.imageUrl} 
                     alt={person.name} 
+                    loading="lazy"
                     className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
                 />
                 <div className="absolute top-3 right-3">
-                    <span className={`
-                        text-xs font-bold px-3 py-1 rounded-full border backdrop-blur-md shadow-lg
-                        ${person.status === 'MISSING' 
-                            ? 'bg-red-500/20 border-red-500/50 text-red-200' 
-                            : 'bg-green-500/20 border-green-500/50 text-green-200'}
-                    `}>
-                        {person.status}
-                    </span>
+                    <StatusBadge status={person.status} className="backdrop-blur-md shadow-lg" />
                 </div>
                 <div className="absolute inset-0 bg-gradient-to-t from-slate-900 to-transparent opacity-60" />
               </div>
@@ -77,6 +271,29 @@ export const Directory: React.FC<DirectoryProps> = ({ people }) => {
             </div>
           ))}
         </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-8 text-sm text-slate-400 font-mono">
+            <button
+              onClick={() => setPage(p => p - 1)}
+              disabled={page === 0}
+              className="p-2 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-30"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>
+              {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, results.length)} of {results.length}
+            </span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= pageCount - 1}
+              className="p-2 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        </>
       )}
     </div>
   );
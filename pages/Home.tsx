@@ -1,32 +1,51 @@
 import React from 'react';
-import { Person, AppView } from '../types';
-import { Activity, CheckCircle2, AlertTriangle, Clock } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { Person, AppView, MatchCandidate, ScanSession } from '../types';
+import { Activity, CheckCircle2, AlertTriangle, Clock, Timer, Crosshair } from 'lucide-react';
+import { recognitionProvider } from '../services/recognition';
+import { StatusBadge } from '../components/StatusBadge';
+import { casesOverTime, confirmationRate, formatDuration, foundSince, frameHitRate, medianTimeToFound, recentActivity, scansPerDay } from '../services/dashboardStats';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, Legend } from 'recharts';
 
 interface HomeProps {
   people: Person[];
+  sessions: ScanSession[];
+  candidates: MatchCandidate[];
   setView: (view: AppView) => void;
+  onOpenCase: (id: string) => void;
 }
 
-export const Home: React.FC<HomeProps> = ({ people, setView }) => {
+const tooltipStyle = {backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#fff'};
+const axisProps = { stroke: '#64748b', tick: {fill: '#94a3b8', fontSize: 11}, axisLine: false, tickLine: false };
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
+
+export const Home: React.FC<HomeProps> = ({ people, sessions, candidates, setView, onOpenCase }) => {
   const missingCount = people.filter(p => p.status === 'MISSING').length;
   const foundCount = people.filter(p => p.status === 'FOUND').length;
+  const foundLast24h = foundSince(people, Date.now() - 24 * 60 * 60 * 1000);
+  const medianFound = medianTimeToFound(people);
+  const hitRate = frameHitRate(sessions);
+  const confirmRate = confirmationRate(candidates);
+  const caseTrend = casesOverTime(people);
+  const scanTrend = scansPerDay(sessions);
+  const activity = recentActivity(people);
 
   const data = [
     { name: 'Missing', value: missingCount, color: '#f43f5e' },
     { name: 'Found', value: foundCount, color: '#10b981' },
     { name: 'Sighted', value: people.filter(p => p.status === 'SIGHTED').length, color: '#fbbf24' },
+    { name: 'Closed', value: people.filter(p => p.status === 'CLOSED').length, color: '#64748b' },
   ];
 
   return (
     <div className="p-6 lg:p-10 w-full max-w-7xl mx-auto">
       <header className="mb-8">
         <h1 className="text-3xl font-bold text-white mb-2">Command Dashboard</h1>
-        <p className="text-slate-400">Real-time overview of active search operations.</p>
+        <p className="text-slate-400">Operations overview derived from case and scan history. <span className="text-slate-600">({recognitionProvider.label})</span></p>
       </header>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
         <div className="bg-slate-900/50 border border-slate-800 p-6 rounded-2xl backdrop-blur-sm">
           <div className="flex items-center justify-between mb-4">
             <span className="text-slate-400 font-medium">Active Cases</span>
@@ -42,16 +61,25 @@ export const Home: React.FC<HomeProps> = ({ people, setView }) => {
             <CheckCircle2 className="text-neon-green w-5 h-5" />
           </div>
           <div className="text-4xl font-bold text-white mb-1">{foundCount}</div>
-          <div className="text-xs text-slate-500">+2 in last 24h</div>
+          <div className="text-xs text-slate-500">+{foundLast24h} in last 24h</div>
         </div>
 
         <div className="bg-slate-900/50 border border-slate-800 p-6 rounded-2xl backdrop-blur-sm">
           <div className="flex items-center justify-between mb-4">
-            <span className="text-slate-400 font-medium">System Load</span>
-            <Activity className="text-neon-blue w-5 h-5" />
+            <span className="text-slate-400 font-medium">Median Time to Found</span>
+            <Timer className="text-neon-blue w-5 h-5" />
           </div>
-          <div className="text-4xl font-bold text-white mb-1">Optimal</div>
-          <div className="text-xs text-slate-500">Gemini V2.5 Connected</div>
+          <div className="text-4xl font-bold text-white mb-1">{medianFound === null ? '—' : formatDuration(medianFound)}</div>
+          <div className="text-xs text-slate-500">From report to recovery</div>
+        </div>
+
+        <div className="bg-slate-900/50 border border-slate-800 p-6 rounded-2xl backdrop-blur-sm">
+          <div className="flex items-center justify-between mb-4">
+            <span className="text-slate-400 font-medium">Match Hit Rate</span>
+            <Crosshair className="text-neon-blue w-5 h-5" />
+          </div>
+          <div className="text-4xl font-bold text-white mb-1">{formatRate(hitRate)}</div>
+          <div className="text-xs text-slate-500">of frames · {formatRate(confirmRate)} confirmed on review</div>
         </div>
 
          <div 
@@ -67,6 +95,38 @@ export const Home: React.FC<HomeProps> = ({ people, setView }) => {
         </div>
       </div>
 
+      {/* Trends */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 h-80">
+          <h3 className="text-lg font-semibold text-white mb-4">Cases Opened / Closed (14 days)</h3>
+          <ResponsiveContainer width="100%" height="85%">
+            <LineChart data={caseTrend}>
+              <XAxis dataKey="day" {...axisProps} />
+              <YAxis allowDecimals={false} width={30} {...axisProps} />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Legend wrapperStyle={{fontSize: 12}} />
+              <Line type="monotone" dataKey="opened" name="Opened" stroke="#f43f5e" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="closed" name="Found" stroke="#10b981" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 h-80">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            Scans per Day (14 days)
+            <Activity className="text-neon-blue w-4 h-4" />
+          </h3>
+          <ResponsiveContainer width="100%" height="85%">
+            <BarChart data={scanTrend}>
+              <XAxis dataKey="day" {...axisProps} />
+              <YAxis allowDecimals={false} width={30} {...axisProps} />
+              <Tooltip contentStyle={tooltipStyle} cursor={{fill: 'rgba(255,255,255,0.05)'}} />
+              <Bar dataKey="scans" name="Scans" fill="#0ea5e9" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Chart Section */}
         <div className="lg:col-span-2 bg-slate-900 border border-slate-800 rounded-2xl p-6 h-96">
@@ -96,26 +156,27 @@ export const Home: React.FC<HomeProps> = ({ people, setView }) => {
 
         {/* Recent Activity Feed */}
         <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 h-96 overflow-y-auto">
-          <h3 className="text-lg font-semibold text-white mb-6">Recent Reports</h3>
+          <h3 className="text-lg font-semibold text-white mb-6">Recent Activity</h3>
           <div className="space-y-4">
-            {people.length === 0 ? (
+            {activity.length === 0 ? (
                 <p className="text-slate-500 text-sm italic">No reports filed yet.</p>
             ) : (
-                people.slice(0, 5).map((person) => (
-                <div key={person.id} className="flex items-start gap-3 p-3 rounded-lg bg-slate-800/50 border border-slate-700/50">
+                activity.map(({ person, event }) => (
+                <div
+                    key={event.id}
+                    onClick={() => onOpenCase(person.id)}
+                    className="flex items-start gap-3 p-3 rounded-lg bg-slate-800/50 border border-slate-700/50 cursor-pointer hover:border-neon-blue/50"
+                >
                     <img src={person.imageUrl} alt={person.name} className="w-10 h-10 rounded-full object-cover border border-slate-600" />
-                    <div>
+                    <div className="min-w-0">
                     <p className="text-sm font-medium text-white">{person.name}</p>
-                    <div className="flex items-center gap-1 text-xs text-slate-400 mt-0.5">
+                    <p className="text-xs text-slate-400 truncate">{event.summary}</p>
+                    <div className="flex items-center gap-1 text-[10px] text-slate-500 mt-0.5">
                         <Clock className="w-3 h-3" />
-                        <span>{person.lastSeenDate}</span>
+                        <span>{new Date(event.timestamp).toLocaleString()}</span>
                     </div>
                     </div>
-                    <span className={`ml-auto text-[10px] px-2 py-1 rounded-full font-bold ${
-                        person.status === 'MISSING' ? 'bg-neon-red/10 text-neon-red' : 'bg-neon-green/10 text-neon-green'
-                    }`}>
-                        {person.status}
-                    </span>
+                    <StatusBadge status={person.status} size="sm" className="ml-auto" />
                 </div>
                 ))
             )}
@@ -0,0 +1,199 @@
+import React, { useState, useRef } from 'react';
+import { Person } from '../types';
+import { UserSearch, Upload, Loader2, AlertTriangle, RefreshCw, ExternalLink, Database } from 'lucide-react';
+import { DEFAULT_BATCH_OPTIONS, IdentifyResult, identifyPerson, recognitionProvider } from '../services/recognition';
+import { RecognitionError, classifyError, describeErrorKind } from '../services/errors';
+import { isOpenStatus } from '../services/caseStatus';
+import { StatusBadge } from '../components/StatusBadge';
+
+interface IdentifyProps {
+  people: Person[];
+  onOpenCase: (id: string) => void;
+}
+
+// Candidates below this are folded away; the model scores every record, however unlike
+const WEAK_SIMILARITY = 40;
+
+const similarityColor = (similarity: number) =>
+  similarity >= 75 ? 'bg-green-500' : similarity >= WEAK_SIMILARITY ? 'bg-yellow-500' : 'bg-slate-600';
+
+/**
+ * Reverse lookup for shelters and hospitals: a portrait of an unidentified
+ * person is ranked against the directory's photos.
+ */
+export const Identify: React.FC<IdentifyProps> = ({ people, onOpenCase }) => {
+  const [portrait, setPortrait] = useState<string | null>(null);
+  const [includeClosed, setIncludeClosed] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [retryNote, setRetryNote] = useState<string | null>(null);
+  const [result, setResult] = useState<IdentifyResult | null>(null);
+  const [error, setError] = useState<RecognitionError | null>(null);
+  const [showWeak, setShowWeak] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const references = people.filter(p => p.imageUrl && (includeClosed || isOpenStatus(p.status)));
+  const requests = Math.ceil(references.length / DEFAULT_BATCH_OPTIONS.groupSize);
+
+  const reset = () => {
+    setResult(null);
+    setError(null);
+    setShowWeak(false);
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setPortrait(reader.result as string);
+      reset();
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const runLookup = async () => {
+    if (!portrait) return;
+    reset();
+    setRunning(true);
+    try {
+      setResult(await identifyPerson(references, portrait, {}, {
+        onRetry: (err, attempt, delayMs) =>
+          setRetryNote(`${describeErrorKind(err.kind)} Retrying (${attempt}) in ${Math.ceil(delayMs / 1000)}s...`),
+      }));
+    } catch (err) {
+      setError(classifyError(err));
+    } finally {
+      setRunning(false);
+      setRetryNote(null);
+    }
+  };
+
+  // Records deleted since the lookup ran are skipped
+  const ranked = (result?.candidates || []).flatMap(candidate => {
+    const person = people.find(p => p.id === candidate.personId);
+    return person ? [{ ...candidate, person }] : [];
+  });
+  const strong = ranked.filter(c => c.similarity >= WEAK_SIMILARITY);
+  const shown = showWeak ? ranked : strong;
+
+  return (
+    <div className="p-6 lg:p-10 w-full max-w-6xl">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+          <UserSearch className="text-neon-blue w-8 h-8" />
+          Identify Found Person
+        </h1>
+        <p className="text-slate-400">Upload a portrait of an unidentified person to rank the directory's cases by facial similarity.</p>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-4">
+          <div
+            onClick={() => !running && fileInputRef.current?.click()}
+            className={`relative aspect-square rounded-2xl border-2 border-dashed flex flex-col items-center justify-center cursor-pointer overflow-hidden transition-all
+              ${portrait ? 'border-neon-blue' : 'border-slate-700 hover:border-slate-500 bg-slate-900/50'}`}
+          >
+            {portrait ? (
+              <img src={portrait} alt="Unidentified person" className="w-full h-full object-cover" />
+            ) : (
+              <div className="text-center p-6">
+                <Upload className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+                <p className="text-slate-300 font-medium">Click to upload portrait</p>
+                <p className="text-slate-500 text-sm mt-2">A clear, front-facing photo works best</p>
+              </div>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input type="checkbox" checked={includeClosed} onChange={e => { setIncludeClosed(e.target.checked); reset(); }} />
+            Include found and closed cases
+          </label>
+          <p className="text-xs text-slate-500 flex items-center gap-2">
+            <Database className="w-4 h-4" />
+            {references.length} cases · {requests} request{requests === 1 ? '' : 's'} · {recognitionProvider.label}
+          </p>
+
+          <button
+            onClick={runLookup}
+            disabled={!portrait || running || references.length === 0}
+            className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-3 rounded-lg flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? <><Loader2 className="w-5 h-5 animate-spin" /> Comparing...</> : <><UserSearch className="w-5 h-5" /> Identify</>}
+          </button>
+          {retryNote && <p className="text-yellow-400 font-mono text-xs text-center">{retryNote}</p>}
+        </div>
+
+        <div className="lg:col-span-2 space-y-4">
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-xs text-red-300">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-bold">{describeErrorKind(error.kind)}</p>
+                <p className="text-red-300/70">{error.message}</p>
+              </div>
+              {error.kind !== 'AUTH' && (
+                <button onClick={runLookup} className="flex items-center gap-1 text-red-200 hover:text-white">
+                  <RefreshCw className="w-3 h-3" /> Retry
+                </button>
+              )}
+            </div>
+          )}
+
+          {!result && !error && (
+            <div className="h-64 border border-dashed border-slate-800 rounded-2xl flex items-center justify-center text-sm text-slate-500">
+              {running ? 'Comparing against the directory...' : 'Ranked candidates will appear here.'}
+            </div>
+          )}
+
+          {result && (
+            <>
+              {result.summary && <p className="text-sm text-slate-400 italic">{result.summary}</p>}
+              {result.issues.length > 0 && (
+                <p className="text-xs text-yellow-400">{result.issues.length} malformed entr{result.issues.length === 1 ? 'y' : 'ies'} in the AI response were corrected or dropped.</p>
+              )}
+              {strong.length === 0 && (
+                <p className="text-sm text-slate-300">No case resembles this person closely (all below {WEAK_SIMILARITY}%).</p>
+              )}
+
+              <div className="bg-slate-900 border border-slate-800 rounded-2xl divide-y divide-slate-800">
+                {shown.map(({ person, similarity, explanation }, i) => (
+                  <div key={person.id} className={`flex items-start gap-4 p-4 ${similarity < WEAK_SIMILARITY ? 'opacity-60' : ''}`}>
+                    <span className="text-slate-500 font-mono text-xs w-6 pt-1">#{i + 1}</span>
+                    <img src={person.imageUrl} alt={person.name} className="w-20 h-20 rounded-lg object-cover border border-slate-700 shrink-0" />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="text-white font-medium truncate">{person.name}</p>
+                        <StatusBadge status={person.status} size="sm" />
+                      </div>
+                      <p className="text-xs text-slate-500">Age {person.age || '?'} · last seen {person.lastSeenLocation}, {person.lastSeenDate}</p>
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                          <div className={`h-full ${similarityColor(similarity)}`} style={{ width: `${similarity}%` }} />
+                        </div>
+                        <span className="text-xs font-mono text-slate-300 w-10 text-right">{similarity}%</span>
+                      </div>
+                      {explanation && <p className="text-xs text-slate-400">{explanation}</p>}
+                    </div>
+                    <button
+                      onClick={() => onOpenCase(person.id)}
+                      className="shrink-0 text-xs flex items-center gap-1 px-3 py-2 rounded border border-slate-700 text-slate-300 hover:bg-slate-800"
+                    >
+                      <ExternalLink className="w-3 h-3" /> Open Case
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              {ranked.length > strong.length && (
+                <button onClick={() => setShowWeak(!showWeak)} className="text-xs text-slate-400 hover:text-white">
+                  {showWeak ? 'Hide weak matches' : `Show ${ranked.length - strong.length} weaker match${ranked.length - strong.length === 1 ? '' : 'es'}`}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ShieldAlert, LogIn, UserCog, Loader2, AlertTriangle } from 'lucide-react';
+import { MIN_PASSWORD_LENGTH } from '../services/auth';
+
+interface LoginProps {
+  // No accounts yet: the form creates the first administrator instead of signing in
+  setup: boolean;
+  onSignIn: (username: string, password: string) => Promise<void>;
+  onCreateAdmin: (username: string, displayName: string, password: string) => Promise<void>;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-white focus:border-neon-blue focus:ring-1 focus:ring-neon-blue outline-none transition-all";
+
+export const Login: React.FC<LoginProps> = ({ setup, onSignIn, onCreateAdmin }) => {
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (setup && password !== confirm) {
+      setError("Passwords don't match.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      if (setup) await onCreateAdmin(username, displayName, password);
+      else await onSignIn(username, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setPassword('');
+      setConfirm('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-950 text-slate-200 font-sans p-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-900 border border-slate-800 rounded-2xl p-8 space-y-5">
+        <div className="flex items-center gap-3">
+          <ShieldAlert className="w-8 h-8 text-neon-blue" />
+          <span className="text-xl font-bold tracking-wider text-white">SENTINEL</span>
+        </div>
+
+        <div>
+          <h1 className="text-lg font-semibold text-white">{setup ? 'Create Administrator' : 'Sign In'}</h1>
+          <p className="text-xs text-slate-500 mt-1">
+            {setup
+              ? 'No accounts exist yet. The first account manages everyone else\'s access.'
+              : 'Use the account your administrator created for you.'}
+          </p>
+        </div>
+
+        <label className="block text-sm text-slate-400 space-y-2">
+          <span>Username</span>
+          <input required autoFocus autoComplete="username" type="text" className={inputClass}
+            value={username} onChange={e => setUsername(e.target.value)} />
+        </label>
+
+        {setup && (
+          <label className="block text-sm text-slate-400 space-y-2">
+            <span>Display name</span>
+            <input required type="text" className={inputClass}
+              value={displayName} onChange={e => setDisplayName(e.target.value)} />
+          </label>
+        )}
+
+        <label className="block text-sm text-slate-400 space-y-2">
+          <span>Password</span>
+          <input required type="password" autoComplete={setup ? 'new-password' : 'current-password'} className={inputClass}
+            minLength={setup ? MIN_PASSWORD_LENGTH : undefined}
+            value={password} onChange={e => setPassword(e.target.value)} />
+        </label>
+
+        {setup && (
+          <label className="block text-sm text-slate-400 space-y-2">
+            <span>Confirm password</span>
+            <input required type="password" autoComplete="new-password" className={inputClass}
+              value={confirm} onChange={e => setConfirm(e.target.value)} />
+          </label>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-400 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-3 rounded-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : setup ? <UserCog className="w-4 h-4" /> : <LogIn className="w-4 h-4" />}
+          {setup ? 'Create Account' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+};
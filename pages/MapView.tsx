@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Person, MatchCandidate } from '../types';
+import { Map as MapIcon, MapPin, Diamond, MapPinOff } from 'lucide-react';
+import { MapCanvas, MapMarker, MapLine } from '../components/MapCanvas';
+import { distanceKm, formatDistance } from '../services/geo';
+
+interface MapViewProps {
+  people: Person[];
+  candidates: MatchCandidate[];
+  onOpenCase: (id: string) => void;
+}
+
+const STATUS_COLORS: Record<Person['status'], string> = {
+  MISSING: '#ff005e',
+  SIGHTED: '#fbbf24',
+  FOUND: '#10b981',
+  CLOSED: '#64748b',
+};
+
+const SIGHTING_COLORS: Record<MatchCandidate['status'], string> = {
+  PENDING: '#fbbf24',
+  CONFIRMED: '#10b981',
+  REJECTED: '#64748b',
+};
+
+export const MapView: React.FC<MapViewProps> = ({ people, candidates, onOpenCase }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Rejected hits were false positives - keep them off the map
+  const sightings = candidates.filter(c => c.sourceLocation && c.status !== 'REJECTED');
+  const sightingsFor = (personId: string) => sightings.filter(c => c.personId === personId);
+
+  const plotted = people.filter(p => p.lastSeenCoordinates || sightingsFor(p.id).length > 0);
+  const unplotted = people.length - plotted.length;
+  const visible = selectedId ? plotted.filter(p => p.id === selectedId) : plotted;
+
+  const markers: MapMarker[] = [];
+  const lines: MapLine[] = [];
+  visible.forEach(person => {
+    if (person.lastSeenCoordinates) {
+      markers.push({
+        id: `seen-${person.id}`,
+        point: person.lastSeenCoordinates,
+        color: STATUS_COLORS[person.status],
+        label: `${person.name} - last seen ${person.lastSeenDate} at ${person.lastSeenLocation}`,
+        onClick: () => setSelectedId(person.id),
+      });
+    }
+    sightingsFor(person.id).forEach(candidate => {
+      markers.push({
+        id: `sighting-${candidate.id}`,
+        point: candidate.sourceLocation!,
+        color: SIGHTING_COLORS[candidate.status],
+        shape: 'diamond',
+        label: `${person.name} - ${candidate.status.toLowerCase()} sighting ${new Date(candidate.detectedAt).toLocaleString()} (${candidate.confidence}%)`,
+        onClick: () => setSelectedId(person.id),
+      });
+      if (person.lastSeenCoordinates) {
+        lines.push({
+          id: `line-${candidate.id}`,
+          from: person.lastSeenCoordinates,
+          to: candidate.sourceLocation!,
+          color: SIGHTING_COLORS[candidate.status],
+          // Labels on every line get unreadable; only show them for a focused person
+          label: selectedId ? formatDistance(distanceKm(person.lastSeenCoordinates, candidate.sourceLocation!)) : undefined,
+        });
+      }
+    });
+  });
+
+  const selected = selectedId ? people.find(p => p.id === selectedId) : null;
+
+  return (
+    <div className="p-6 lg:p-10 w-full h-full flex flex-col">
+      <header className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <MapIcon className="text-neon-blue w-8 h-8" />
+            Sightings Map
+          </h1>
+          <p className="text-slate-400">Last-seen points and located AI sightings per case.</p>
+        </div>
+        <div className="flex items-center gap-4 text-xs text-slate-400">
+          <span className="flex items-center gap-1"><MapPin className="w-3 h-3 text-neon-red" /> Last seen</span>
+          <span className="flex items-center gap-1"><Diamond className="w-3 h-3 text-yellow-400" /> Pending</span>
+          <span className="flex items-center gap-1"><Diamond className="w-3 h-3 text-green-500" /> Confirmed</span>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-6 flex-1 min-h-[600px]">
+        {/* Case list */}
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4 overflow-y-auto custom-scrollbar space-y-2">
+          <button
+            onClick={() => setSelectedId(null)}
+            className={`w-full text-left text-xs font-bold px-3 py-2 rounded-lg border ${!selectedId ? 'border-neon-blue text-neon-blue bg-neon-blue/10' : 'border-slate-800 text-slate-400 hover:bg-slate-800'}`}
+          >
+            ALL CASES ({plotted.length})
+          </button>
+          {plotted.map(person => (
+            <button
+              key={person.id}
+              onClick={() => setSelectedId(person.id)}
+              className={`w-full flex items-center gap-3 p-2 rounded-lg border text-left ${selectedId === person.id ? 'border-neon-blue bg-neon-blue/10' : 'border-slate-800 hover:bg-slate-800'}`}
+            >
+              <img src={person.imageUrl} alt={person.name} className="w-8 h-8 rounded-full object-cover" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-white truncate">{person.name}</p>
+                <p className="text-[10px] text-slate-500">{sightingsFor(person.id).length} located sightings</p>
+              </div>
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STATUS_COLORS[person.status] }} />
+            </button>
+          ))}
+          {unplotted > 0 && (
+            <p className="text-[10px] text-slate-500 flex items-center gap-1 pt-2">
+              <MapPinOff className="w-3 h-3" /> {unplotted} case{unplotted > 1 ? 's' : ''} without coordinates
+            </p>
+          )}
+        </div>
+
+        {/* Map */}
+        <div className="xl:col-span-3 flex flex-col gap-4">
+          <MapCanvas key={selectedId || 'all'} markers={markers} lines={lines} className="flex-1 min-h-[450px] rounded-2xl border border-slate-800" />
+
+          {selected && (
+            <div className="bg-slate-900 border border-slate-800 rounded-2xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <p className="text-white font-bold">{selected.name}</p>
+                  <p className="text-xs text-slate-400">
+                    Last seen {selected.lastSeenDate} · {selected.lastSeenLocation}
+                    {!selected.lastSeenCoordinates && ' (no coordinates - distances unavailable)'}
+                  </p>
+                </div>
+                <button onClick={() => onOpenCase(selected.id)} className="text-xs text-neon-blue hover:underline">Open case</button>
+              </div>
+              <div className="space-y-1">
+                {sightingsFor(selected.id).length === 0 && <p className="text-xs text-slate-500 italic">No located sightings.</p>}
+                {sightingsFor(selected.id).map(candidate => (
+                  <div key={candidate.id} className="flex items-center gap-3 text-xs font-mono text-slate-400">
+                    <Diamond className="w-3 h-3" style={{ color: SIGHTING_COLORS[candidate.status] }} />
+                    <span className="w-40">{new Date(candidate.detectedAt).toLocaleString()}</span>
+                    <span className="flex-1 truncate">{candidate.sourceLabel || candidate.locationContext}</span>
+                    <span>{candidate.confidence}%</span>
+                    <span className="w-20 text-right text-white">
+                      {selected.lastSeenCoordinates ? formatDistance(distanceKm(selected.lastSeenCoordinates, candidate.sourceLocation!)) : '—'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
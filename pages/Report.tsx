@@ -1,21 +1,34 @@
 import React, { useState, useRef } from 'react';
-import { Person } from '../types';
-import { Upload, Loader2, Sparkles, Shirt } from 'lucide-react';
-import { analyzePersonImage } from '../services/geminiService';
+import { Person, GeoPoint } from '../types';
+import { Upload, Loader2, Sparkles, Shirt, AlertTriangle, RefreshCw } from 'lucide-react';
+import { analyzePersonImage } from '../services/recognition';
+import { createCaseEvent } from '../services/caseTimeline';
+import { LocationPicker } from '../components/LocationPicker';
+import { RecognitionError, classifyError, describeErrorKind } from '../services/errors';
+import { DuplicateCheck, findDuplicates } from '../services/duplicates';
+import { DuplicatePanel } from '../components/DuplicatePanel';
 
 interface ReportProps {
+  people: Person[];
   onAddPerson: (person: Person) => void;
+  onMergeReport: (existingId: string, report: Person) => void;
 }
 
-export const Report: React.FC<ReportProps> = ({ onAddPerson }) => {
+export const Report: React.FC<ReportProps> = ({ people, onAddPerson, onMergeReport }) => {
   const [loading, setLoading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  // Set while the reporter decides what to do with likely duplicates
+  const [pending, setPending] = useState<{ report: Person; check: DuplicateCheck } | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [analysisError, setAnalysisError] = useState<RecognitionError | null>(null);
+  const [retryNote, setRetryNote] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [formData, setFormData] = useState({
     name: '',
     age: '',
     lastSeenLocation: '',
+    lastSeenCoordinates: undefined as GeoPoint | undefined,
     lastSeenDate: new Date().toISOString().split('T')[0],
     lastSeenClothing: '',
     description: '',
@@ -26,20 +39,42 @@ export const Report: React.FC<ReportProps> = ({ onAddPerson }) => {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onloadend = async () => {
+    reader.onloadend = () => {
       const base64 = reader.result as string;
       setImagePreview(base64);
-      
-      // Auto-fill description using AI
-      setLoading(true);
-      const description = await analyzePersonImage(base64);
-      setFormData(prev => ({ ...prev, description }));
-      setLoading(false);
+      runAnalysis(base64);
     };
     reader.readAsDataURL(file);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Auto-fill description using AI
+  const runAnalysis = async (base64: string) => {
+    setLoading(true);
+    setAnalysisError(null);
+    setRetryNote(null);
+    setFormData(prev => ({ ...prev, description: '' }));
+    try {
+      const description = await analyzePersonImage(base64, {
+        onRetry: (error, attempt, delayMs) =>
+          setRetryNote(`${describeErrorKind(error.kind)} Retrying (${attempt}) in ${Math.ceil(delayMs / 1000)}s...`),
+      });
+      setFormData(prev => ({ ...prev, description }));
+    } catch (e) {
+      // Never write the failure into the biometrics field - the operator fills it in instead
+      setAnalysisError(classifyError(e));
+    } finally {
+      setLoading(false);
+      setRetryNote(null);
+    }
+  };
+
+  // Only some failures are worth retrying from the form
+  const canRetry = analysisError && analysisError.kind !== 'AUTH' && analysisError.kind !== 'SAFETY_BLOCK';
+  const errorHint = analysisError?.kind === 'SAFETY_BLOCK'
+    ? 'Try a different photo, or describe features manually below.'
+    : 'Describe features manually below.';
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!imagePreview) return alert("Please upload an image");
 
@@ -47,10 +82,21 @@ export const Report: React.FC<ReportProps> = ({ onAddPerson }) => {
       id: crypto.randomUUID(),
       ...formData,
       imageUrl: imagePreview,
+      images: [],
       status: 'MISSING',
+      reportedAt: new Date().toISOString(),
+      timeline: [createCaseEvent('REPORTED', 'Missing person report filed')],
     };
 
-    onAddPerson(newPerson);
+    // Two relatives reporting the same person should end up with one case, not two scanned separately
+    setChecking(true);
+    try {
+      const check = await findDuplicates(newPerson, people);
+      if (check.matches.length === 0 && !check.faceError) onAddPerson(newPerson);
+      else setPending({ report: newPerson, check });
+    } finally {
+      setChecking(false);
+    }
   };
 
   return (
@@ -58,7 +104,16 @@ export const Report: React.FC<ReportProps> = ({ onAddPerson }) => {
       <h1 className="text-3xl font-bold text-white mb-2">Report Missing Person</h1>
       <p className="text-slate-400 mb-8">Submit details to the centralized database. AI will extract facial biometrics automatically.</p>
 
-      <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-8 pb-8">
+      {pending && (
+        <DuplicatePanel
+          check={pending.check}
+          onMerge={existingId => onMergeReport(existingId, pending.report)}
+          onFileNew={() => onAddPerson(pending.report)}
+          onBack={() => setPending(null)}
+        />
+      )}
+
+      <form onSubmit={handleSubmit} className={`grid grid-cols-1 lg:grid-cols-2 gap-8 pb-8 ${pending ? 'hidden' : ''}`}>
         {/* Image Section */}
         <div className="space-y-4">
           <div 
@@ -90,6 +145,7 @@ export const Report: React.FC<ReportProps> = ({ onAddPerson }) => {
                 <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm flex flex-col items-center justify-center">
                     <Loader2 className="w-10 h-10 text-neon-blue animate-spin mb-3" />
                     <p className="text-neon-blue font-mono text-sm animate-pulse">Extracting facial keypoints...</p>
+                    {retryNote && <p className="text-yellow-400 font-mono text-xs mt-2 px-4 text-center">{retryNote}</p>}
                 </div>
             )}
           </div>
@@ -133,6 +189,11 @@ export const Report: React.FC<ReportProps> = ({ onAddPerson }) => {
               value={formData.lastSeenLocation}
               onChange={e => setFormData({...formData, lastSeenLocation: e.target.value})}
             />
+            <LocationPicker
+              value={formData.lastSeenCoordinates}
+              onChange={lastSeenCoordinates => setFormData(prev => ({...prev, lastSeenCoordinates}))}
+              inputClassName="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-white focus:border-neon-blue focus:ring-1 focus:ring-neon-blue outline-none transition-all"
+            />
           </div>
 
           <div className="space-y-2">
@@ -172,21 +233,39 @@ export const Report: React.FC<ReportProps> = ({ onAddPerson }) => {
                     </span>
                 )}
             </div>
+            {analysisError && (
+              <div className="flex items-start gap-2 p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-xs text-red-300">
+                <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p className="font-bold">{describeErrorKind(analysisError.kind)}</p>
+                  <p className="text-red-300/70">{errorHint}</p>
+                </div>
+                {canRetry && imagePreview && (
+                  <button type="button" onClick={() => runAnalysis(imagePreview)} className="flex items-center gap-1 text-red-200 hover:text-white">
+                    <RefreshCw className="w-3 h-3" /> Retry
+                  </button>
+                )}
+              </div>
+            )}
             <textarea 
-              readOnly
+              readOnly={!analysisError}
+              required={!!analysisError}
               rows={3}
-              className="w-full bg-slate-950/50 border border-slate-800 rounded-lg p-3 text-slate-400 focus:outline-none resize-none italic text-sm"
+              className={`w-full bg-slate-950/50 border rounded-lg p-3 focus:outline-none resize-none italic text-sm ${analysisError ? 'border-red-500/40 text-white' : 'border-slate-800 text-slate-400'}`}
               value={formData.description}
-              placeholder="AI will populate physical characteristics from the image (hair, eyes, build) to aid identification..."
+              onChange={e => setFormData({...formData, description: e.target.value})}
+              placeholder={analysisError
+                ? "Describe hair, eyes, facial structure, distinct marks and build..."
+                : "AI will populate physical characteristics from the image (hair, eyes, build) to aid identification..."}
             />
           </div>
 
           <button 
             type="submit"
-            disabled={loading || !imagePreview}
-            className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-4 rounded-lg transition-all shadow-[0_0_20px_rgba(14,165,233,0.3)] hover:shadow-[0_0_30px_rgba(14,165,233,0.5)] disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={loading || checking || !imagePreview}
+            className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-4 rounded-lg transition-all shadow-[0_0_20px_rgba(14,165,233,0.3)] hover:shadow-[0_0_30px_rgba(14,165,233,0.5)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
-            Submit Report
+            {checking ? <><Loader2 className="w-5 h-5 animate-spin" /> Checking for existing cases...</> : 'Submit Report'}
           </button>
         </div>
       </form>
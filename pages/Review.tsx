@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Person, MatchCandidate } from '../types';
+import { ClipboardCheck, CheckCircle, XCircle, Target, Clock, Inbox } from 'lucide-react';
+
+interface ReviewProps {
+  people: Person[];
+  candidates: MatchCandidate[];
+  onDecide: (candidateId: string, decision: 'CONFIRMED' | 'REJECTED', note: string) => void;
+}
+
+const getBoxStyle = (box: [number, number, number, number]) => {
+  const [ymin, xmin, ymax, xmax] = box;
+  return {
+    top: `${ymin / 10}%`,
+    left: `${xmin / 10}%`,
+    height: `${(ymax - ymin) / 10}%`,
+    width: `${(xmax - xmin) / 10}%`,
+  };
+};
+
+export const Review: React.FC<ReviewProps> = ({ people, candidates, onDecide }) => {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const pending = candidates
+    .filter(c => c.status === 'PENDING')
+    .sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  const decided = candidates
+    .filter(c => c.status !== 'PENDING')
+    .sort((a, b) => (b.decidedAt || '').localeCompare(a.decidedAt || ''));
+
+  const decide = (candidate: MatchCandidate, decision: 'CONFIRMED' | 'REJECTED') => {
+    onDecide(candidate.id, decision, notes[candidate.id]?.trim() || '');
+    setNotes(prev => {
+      const { [candidate.id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  return (
+    <div className="p-6 lg:p-10 w-full">
+      <header className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <ClipboardCheck className="text-neon-blue w-8 h-8" />
+            Match Review
+          </h1>
+          <p className="text-slate-400">AI sightings require operator confirmation before a case is closed.</p>
+        </div>
+        <div className="text-slate-500 font-mono text-sm">
+          Pending: {pending.length}
+        </div>
+      </header>
+
+      {pending.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-slate-500 border-2 border-dashed border-slate-800 rounded-2xl mb-10">
+          <Inbox className="w-16 h-16 mb-4 opacity-50" />
+          <p>No sightings awaiting review.</p>
+        </div>
+      ) : (
+        <div className="space-y-6 mb-10">
+          {pending.map(candidate => {
+            const person = people.find(p => p.id === candidate.personId);
+            return (
+              <div key={candidate.id} className="bg-slate-900 border border-yellow-500/30 rounded-2xl p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Captured frame with detection box */}
+                <div className="lg:col-span-2 relative bg-black rounded-lg overflow-hidden">
+                  <img src={candidate.frame} alt="Captured frame" className="w-full h-auto" />
+                  {candidate.boundingBox && (
+                    <div className="absolute border-2 border-yellow-400 bg-yellow-400/10" style={getBoxStyle(candidate.boundingBox)}>
+                      <div className="absolute -top-6 left-0 bg-yellow-400 text-black text-[10px] font-bold px-2 py-0.5 rounded-t flex items-center gap-1 whitespace-nowrap">
+                        <Target className="w-3 h-3" /> {candidate.confidence}%
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-col gap-4">
+                  <div className="flex items-center gap-3">
+                    {person && <img src={person.imageUrl} alt={person.name} className="w-16 h-16 rounded-lg object-cover border border-slate-700" />}
+                    <div>
+                      <p className="text-xs text-slate-500 uppercase font-bold">Reference</p>
+                      <p className="text-white font-bold text-lg leading-tight">{person?.name || 'Unknown record'}</p>
+                      <p className="text-xs text-slate-400">Wearing: {person?.lastSeenClothing}</p>
+                    </div>
+                  </div>
+
+                  <div className="text-xs text-slate-400 space-y-1 font-mono">
+                    <p>SOURCE: {candidate.sourceLabel ? `${candidate.sourceLabel} · ` : ''}{candidate.locationContext}</p>
+                    <p className="flex items-center gap-1"><Clock className="w-3 h-3" /> {new Date(candidate.detectedAt).toLocaleString()}</p>
+                    <p>CONFIDENCE: {candidate.confidence}%{candidate.tier === 'REVIEW' && <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">LOW · NOT FLAGGED</span>}</p>
+                  </div>
+
+                  <p className="text-sm text-slate-300 italic">"{candidate.explanation}"</p>
+
+                  <textarea
+                    rows={2}
+                    placeholder="Decision note (optional)"
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg p-2 text-sm text-white focus:border-neon-blue outline-none resize-none"
+                    value={notes[candidate.id] || ''}
+                    onChange={e => setNotes(prev => ({ ...prev, [candidate.id]: e.target.value }))}
+                  />
+
+                  <div className="flex gap-2 mt-auto">
+                    <button
+                      onClick={() => decide(candidate, 'REJECTED')}
+                      className="flex-1 bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white border border-red-500/50 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all"
+                    >
+                      <XCircle className="w-4 h-4" /> REJECT
+                    </button>
+                    <button
+                      onClick={() => decide(candidate, 'CONFIRMED')}
+                      disabled={!person}
+                      className="flex-1 bg-green-500/20 text-green-400 hover:bg-green-500 hover:text-white border border-green-500/50 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+                    >
+                      <CheckCircle className="w-4 h-4" /> CONFIRM FOUND
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {decided.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-4">Decision History</h3>
+          <div className="space-y-2">
+            {decided.map(candidate => {
+              const person = people.find(p => p.id === candidate.personId);
+              return (
+                <div key={candidate.id} className="flex items-center gap-4 p-3 rounded-lg bg-slate-900 border border-slate-800 text-sm">
+                  <img src={candidate.frame} alt="Frame" className="w-16 h-10 object-cover rounded" />
+                  <span className="text-white font-medium w-40 truncate">{person?.name || 'Unknown record'}</span>
+                  <span className={`text-[10px] px-2 py-1 rounded-full font-bold ${candidate.status === 'CONFIRMED' ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'}`}>
+                    {candidate.status}
+                  </span>
+                  <span className="text-xs text-slate-500 font-mono">{candidate.confidence}% · {candidate.locationContext}</span>
+                  <span className="text-xs text-slate-400 italic flex-1 truncate">{candidate.decisionNote}</span>
+                  {candidate.decidedBy && <span className="text-xs text-slate-400">{candidate.decidedBy.name}</span>}
+                  <span className="text-xs text-slate-500 font-mono">{candidate.decidedAt && new Date(candidate.decidedAt).toLocaleString()}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
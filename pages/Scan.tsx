@@ -1,16 +1,36 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Person, MatchResult } from '../types';
-import { ScanEye, Video, Image as ImageIcon, AlertCircle, CheckCircle, Loader2, Play, Pause, Crosshair, FileUp, Target, Shirt, Camera, StopCircle, Users, Database, RefreshCw } from 'lucide-react';
-import { scanCrowdForBatch } from '../services/geminiService';
+import { Person, MatchResult, MatchCandidate, Detection, VideoSighting, ScanSession, GeoPoint, CameraSource, SessionLogEntry, SessionLogKind } from '../types';
+import { ScanEye, Video, Image as ImageIcon, AlertCircle, AlertTriangle, CheckCircle, Loader2, Play, Pause, Crosshair, FileUp, Target, Shirt, Camera, StopCircle, Users, Database, RefreshCw } from 'lucide-react';
+import { scanCrowdForBatch, recognitionProvider, BatchScanResult, BatchScanOptions, DEFAULT_BATCH_OPTIONS } from '../services/recognition';
+import { RecognitionError, QUOTA_COOLDOWN_MS, classifyError, describeErrorKind } from '../services/errors';
+import { ChangeDetectionOptions, DEFAULT_CHANGE_DETECTION, captureFrame as captureToCanvas, createChangeDetector } from '../services/frames';
+import { LocationPicker } from '../components/LocationPicker';
+import { DEFAULT_SAMPLING_OPTIONS, SAMPLING_LABELS, SamplingOptions, SamplingStrategy, formatVideoTime, refinementTimes, sampleTimes } from '../services/videoSampling';
+import { ChangeDetectionSettings } from '../components/ChangeDetectionSettings';
+import { DEFAULT_SCAN_INTERVAL_SEC, deviceConstraints } from '../services/cameras';
+import { createLogEntry } from '../services/auditLog';
+import { isOpenStatus } from '../services/caseStatus';
+import { MAX_PEOPLE_PER_REQUEST } from '../services/recognitionApi';
+import { MatchPolicy, MatchThresholds, acceptedDetections, classifyConfidence, createStreakTracker, thresholdsFor } from '../services/matchPolicy';
+
+type VideoScanMode = 'FIRST_HIT' | 'FULL';
+
+
+// How a scan loop should react to a failed frame
+type ErrorAction = 'ABORT' | 'COOLDOWN' | 'SKIP';
 
 interface ScanProps {
   people: Person[];
-  onUpdatePersonStatus: (id: string, status: 'FOUND') => void;
+  cameras: CameraSource[];
+  onMatchCandidate: (candidate: MatchCandidate) => void;
+  onSessionChange: (session: ScanSession) => void;
+  onLogEntry: (entry: SessionLogEntry) => void;
+  matchPolicy: MatchPolicy;
 }
 
-export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
-  // Get only missing people for the active search
-  const missingPeople = people.filter(p => p.status === 'MISSING');
+export const Scan: React.FC<ScanProps> = ({ people, cameras, onMatchCandidate, onSessionChange, onLogEntry, matchPolicy }) => {
+  // Search every open case (sighted cases stay in the set until reviewed)
+  const missingPeople = people.filter(p => isOpenStatus(p.status));
   
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
   const [mediaType, setMediaType] = useState<'image' | 'video' | 'stream' | null>(null);
@@ -19,6 +39,21 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
   const [currentScanTime, setCurrentScanTime] = useState("00:00");
   const [scanLog, setScanLog] = useState<string[]>([]);
   const [result, setResult] = useState<MatchResult | null>(null);
+  const [videoScanMode, setVideoScanMode] = useState<VideoScanMode>('FIRST_HIT');
+  const [samplingOptions, setSamplingOptions] = useState<SamplingOptions>(DEFAULT_SAMPLING_OPTIONS);
+  // Above the flag threshold a frame is already a hit, so there is nothing left to refine
+  const videoFlagThreshold = thresholdsFor(matchPolicy, 'video').flag;
+  const [sightings, setSightings] = useState<VideoSighting[]>([]);
+  // Registered device cameras can be picked for live mode; '' is the browser default
+  const deviceCameras = cameras.filter(c => c.kind === 'device');
+  const [cameraId, setCameraId] = useState('');
+  const [sourceLabel, setSourceLabel] = useState('');
+  const [sourceLocation, setSourceLocation] = useState<GeoPoint | undefined>(undefined);
+  const [scanError, setScanError] = useState<RecognitionError | null>(null);
+  const [batchOptions, setBatchOptions] = useState<Required<BatchScanOptions>>(DEFAULT_BATCH_OPTIONS);
+  const requestsPerFrame = Math.ceil(missingPeople.length / batchOptions.groupSize);
+  const [changeOptions, setChangeOptions] = useState<ChangeDetectionOptions>(DEFAULT_CHANGE_DETECTION);
+  const [frameStats, setFrameStats] = useState({ sent: 0, skipped: 0 });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -27,11 +62,13 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const stopScanRef = useRef<boolean>(false);
+  const sessionRef = useRef<ScanSession | null>(null);
 
   useEffect(() => {
     return () => {
       if (mediaUrl) URL.revokeObjectURL(mediaUrl);
       stopWebcam();
+      endSession();
     };
   }, []);
 
@@ -64,19 +101,26 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
     setMediaUrl(url);
     setMediaType(file.type.startsWith('video/') ? 'video' : 'image');
     setResult(null);
+    setSightings([]);
     setScanLog(["Media loaded. Initializing auto-scan..."]);
     setScanProgress(0);
     setCurrentScanTime("00:00");
     stopScanRef.current = false; // Reset stop flag for new media
   };
 
-  const enableWebcam = async () => {
+  const enableWebcam = async (camera?: CameraSource) => {
     try {
         if (mediaUrl) URL.revokeObjectURL(mediaUrl);
         setMediaUrl(null);
+        stopWebcam();
         
-        const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+        const stream = await navigator.mediaDevices.getUserMedia(deviceConstraints(camera));
         streamRef.current = stream;
+        setCameraId(camera?.id || '');
+        if (camera) {
+            setSourceLabel(camera.name);
+            setSourceLocation(camera.location);
+        }
         
         if (webcamRef.current) {
             webcamRef.current.srcObject = stream;
@@ -84,37 +128,22 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
         
         setMediaType('stream');
         setResult(null);
-        setScanLog(["Webcam initialized. Starting live surveillance..."]);
+        setScanLog([`${camera ? camera.name : 'Webcam'} initialized. Starting live surveillance...`]);
         setScanProgress(0);
         setCurrentScanTime("LIVE");
         stopScanRef.current = false; // Reset stop flag for new stream
     } catch (err) {
         console.error("Error accessing webcam:", err);
-        setScanLog(prev => ["Error: Could not access webcam.", ...prev]);
+        log("Error: Could not access webcam.", 'ERROR');
     }
   };
 
-  const captureFrame = (source: HTMLVideoElement | HTMLImageElement): string | null => {
-    const canvas = canvasRef.current;
-    if (!canvas) return null;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
-    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
-
-    if (width === 0 || height === 0) return null;
-
-    canvas.width = width;
-    canvas.height = height;
-    ctx.drawImage(source, 0, 0, width, height);
-    return canvas.toDataURL('image/jpeg', 0.8);
-  };
+  const captureFrame = (source: HTMLVideoElement | HTMLImageElement): string | null =>
+    canvasRef.current ? captureToCanvas(source, canvasRef.current) : null;
 
   const triggerScan = async () => {
       if (missingPeople.length === 0) {
-          setScanLog(prev => ["ABORT: Database empty. Add missing persons to directory first.", ...prev]);
+          log("ABORT: Database empty. Add missing persons to directory first.", 'ERROR');
           return;
       }
       
@@ -124,23 +153,90 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
       setScanning(true);
       stopScanRef.current = false;
       setResult(null);
+      setScanError(null);
+      startSession(mediaType!);
 
       if (mediaType === 'stream') {
-           setScanLog(prev => [`AUTO-START: Live Batch Scan for ${missingPeople.length} active targets...`, ...prev]);
+           log(`AUTO-START: Live Batch Scan for ${missingPeople.length} active targets...`);
            await runWebcamScan();
       } else if (mediaType === 'video') {
-           setScanLog(prev => [`AUTO-START: Video Batch Scan for ${missingPeople.length} active targets...`, ...prev]);
+           log(`AUTO-START: Video Batch Scan for ${missingPeople.length} active targets...`);
            await runVideoScan();
       } else if (mediaType === 'image') {
-           setScanLog(prev => [`AUTO-START: Image Batch Scan for ${missingPeople.length} active targets...`, ...prev]);
+           log(`AUTO-START: Image Batch Scan for ${missingPeople.length} active targets...`);
            await runImageScan();
       }
+      endSession();
+  };
+
+  // --- SESSION TRACKING (dashboard stats + audit log) ---
+
+  // Records a line in the active session's audit log without showing it
+  const record = (kind: SessionLogKind, message: string, extra?: Parameters<typeof createLogEntry>[3]) => {
+      if (sessionRef.current) onLogEntry(createLogEntry(sessionRef.current.id, kind, message, extra));
+  };
+
+  // Shows a line in the on-screen log and records it
+  const log = (message: string, kind: SessionLogKind = 'INFO', extra?: Parameters<typeof createLogEntry>[3]) => {
+      setScanLog(prev => [message, ...prev]);
+      record(kind, message, extra);
+  };
+
+  const startSession = (source: ScanSession['source']) => {
+      endSession();
+      sessionRef.current = {
+          id: crypto.randomUUID(),
+          source,
+          cameraId: source === 'stream' ? cameraId || undefined : undefined,
+          sourceLocation,
+          sourceLabel: sourceLabel.trim() || undefined,
+          referenceIds: missingPeople.map(p => p.id),
+          startedAt: new Date().toISOString(),
+          framesAnalyzed: 0,
+          framesWithHits: 0,
+          detections: 0,
+      };
+      onSessionChange(sessionRef.current);
+  };
+
+  // Counts an analyzed frame and audits everything the AI returned for it (including sub-threshold hits)
+  const recordFrame = (frameLabel: string, analysis: BatchScanResult, hits: number) => {
+      const session = sessionRef.current;
+      if (!session) return;
+      record('RESULT', analysis.detections.length === 0
+          ? `${frameLabel}: no detections`
+          : `${frameLabel}: ${analysis.detections.length} detection(s), ${hits} accepted`, {
+          frameLabel,
+          detections: analysis.detections.map(d => ({ personId: d.personId, confidence: d.confidence })),
+      });
+      sessionRef.current = {
+          ...session,
+          framesAnalyzed: session.framesAnalyzed + 1,
+          framesWithHits: session.framesWithHits + (hits > 0 ? 1 : 0),
+          detections: session.detections + hits,
+      };
+      onSessionChange(sessionRef.current);
+  };
+
+  // Counts a live frame dropped by change detection
+  const recordSkip = () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      sessionRef.current = { ...session, framesSkipped: (session.framesSkipped || 0) + 1 };
+      onSessionChange(sessionRef.current);
+  };
+
+  const endSession = () => {
+      if (!sessionRef.current) return;
+      record('INFO', 'Session ended.');
+      onSessionChange({ ...sessionRef.current, endedAt: new Date().toISOString() });
+      sessionRef.current = null;
   };
 
   const stopScan = () => {
       stopScanRef.current = true;
       setScanning(false);
-      setScanLog(prev => ["Scan terminated by user.", ...prev]);
+      log("Scan terminated by user.", 'OPERATOR');
   };
 
   const restartScan = () => {
@@ -153,28 +249,44 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
   const runImageScan = async () => {
     if (!imageRef.current) return;
 
-    setScanLog(prev => ["Analyzing static image against database...", ...prev]);
+    log("Analyzing static image against database...", 'FRAME', { frameLabel: "Static Image" });
     await new Promise(r => setTimeout(r, 500));
 
     const frameBase64 = captureFrame(imageRef.current);
     if (!frameBase64) {
-        setScanLog(prev => ["Error: Capture failed.", ...prev]);
+        log("Error: Capture failed.", 'ERROR');
         setScanning(false);
         return;
     }
 
     try {
-        const analysis = await scanCrowdForBatch(missingPeople, frameBase64);
-        handleScanResult(analysis, "Static Image");
+        const analysis = await scanCrowdForBatch(missingPeople, frameBase64, batchOptions, { onRetry: logRetry });
+        logValidationIssues(analysis);
+        const thresholds = thresholdsFor(matchPolicy, 'image');
+        const hits = acceptedDetections(analysis.detections, thresholds);
+        recordFrame("Static Image", analysis, hits.length);
+        handleScanResult({ ...analysis, detections: hits }, "Static Image", frameBase64, thresholds);
     } catch (e) {
         console.error(e);
-        setScanLog(prev => ["Analysis failed.", ...prev]);
+        handleScanError(e, "Image analysis");
     }
 
     setScanProgress(100);
     setScanning(false);
   };
 
+  // Seeks the player and waits until the new frame can be captured
+  const seekVideo = (video: HTMLVideoElement, time: number) => new Promise<void>(resolve => {
+      const onSeeked = () => {
+          video.removeEventListener('seeked', onSeeked);
+          resolve();
+      };
+      video.addEventListener('seeked', onSeeked);
+      video.currentTime = time;
+      // Fallback if seeked doesn't fire
+      setTimeout(resolve, 800);
+  });
+
   const runVideoScan = async () => {
     if (!videoRef.current) return;
     const video = videoRef.current;
@@ -185,115 +297,275 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
     }
 
     const duration = video.duration || 100;
-    const interval = 2;
-    let currentTime = 0;
+    // Live and streamed sources report an unbounded duration; there is no end to sample up to
+    if (!Number.isFinite(duration)) {
+        log("ABORT: Footage has no fixed length (live stream). Use the live camera scan instead.", 'ERROR');
+        setScanning(false);
+        return;
+    }
+    const sampling = samplingOptions;
+    const fullFootage = videoScanMode === 'FULL';
+    const analyzed = new Set<number>();
+    const thresholds = thresholdsFor(matchPolicy, 'video');
+    let found: VideoSighting[] = [];
+    let halted = false; // First hit accepted (FIRST_HIT mode) or a fatal error
+    setSightings([]);
 
     video.pause();
-    video.currentTime = 0;
-    
-    while (currentTime < duration) {
-      if (stopScanRef.current) break;
-      if (!videoRef.current) break;
-
-      video.currentTime = currentTime;
-      setCurrentScanTime(new Date(currentTime * 1000).toISOString().substr(14, 5));
-      
-      await new Promise<void>(resolve => {
-          const onSeeked = () => {
-              video.removeEventListener('seeked', onSeeked);
-              resolve();
-          };
-          video.addEventListener('seeked', onSeeked);
-          // Fallback if seeked doesn't fire
-          setTimeout(resolve, 800); 
-      });
 
-      const frameBase64 = captureFrame(video);
-      if (frameBase64) {
-        setScanLog(prev => [`Scanning Frame ${new Date(currentTime * 1000).toISOString().substr(14, 5)} against ${missingPeople.length} records...`, ...prev]);
+    // Analyzes the frame on screen; returns the moderate-confidence detections worth refining
+    const analyzeCurrentFrame = async (time: number, references: Person[]): Promise<Detection[]> => {
+        analyzed.add(time);
+        const frameBase64 = captureFrame(video);
+        if (!frameBase64) return [];
 
+        const label = formatVideoTime(time);
+        log(`Scanning Frame ${label} against ${references.length} records...`, 'FRAME', { frameLabel: label });
         try {
-            const analysis = await scanCrowdForBatch(missingPeople, frameBase64);
-            if (analysis.found && analysis.confidence > 75) {
-                handleScanResult(analysis, new Date(currentTime * 1000).toISOString().substr(14, 5));
-                setScanning(false);
-                return;
+            const analysis = await scanCrowdForBatch(references, frameBase64, batchOptions, { onRetry: logRetry });
+            logValidationIssues(analysis);
+            const hits = acceptedDetections(analysis.detections, thresholds);
+            recordFrame(label, analysis, hits.length);
+            if (hits.length > 0) {
+                const accepted = handleScanResult({ ...analysis, detections: hits }, label, frameBase64, thresholds);
+                found = [...found, ...accepted.map(d => ({ ...d, id: crypto.randomUUID(), videoTime: time }))];
+                setSightings(found);
+
+                // Full-footage mode keeps going to collect every appearance
+                if (!fullFootage && accepted.length > 0) halted = true;
             }
+            return analysis.detections.filter(d => d.confidence >= sampling.refineMinConfidence && d.confidence < thresholds.flag);
         } catch (e) {
             console.error("Frame error", e);
+            const action = handleScanError(e, `Frame ${label}`);
+            if (action === 'ABORT') halted = true;
+            if (action === 'COOLDOWN') await new Promise(r => setTimeout(r, QUOTA_COOLDOWN_MS));
+            return [];
         }
-      }
+    };
+
+    const shouldStop = () => halted || stopScanRef.current || !videoRef.current;
+    const showPosition = (time: number) => {
+        setCurrentScanTime(formatVideoTime(time));
+        setScanProgress(Math.min(Math.round((time / duration) * 100), 99));
+    };
+
+    if (sampling.strategy === 'SCENE_CUT') {
+        const detector = createChangeDetector();
+        const sceneOptions = { enabled: true, sensitivity: sampling.sceneSensitivity, keepaliveMs: sampling.maxGapSec * 1000 };
+        for (const time of sampleTimes(duration, sampling.probeSec)) {
+            if (shouldStop()) break;
+            showPosition(time);
+            await seekVideo(video, time);
+            // A cheap local comparison decides whether this probe is worth an AI call
+            if (detector.check(video, sceneOptions, time * 1000).changed) {
+                await analyzeCurrentFrame(time, missingPeople);
+            }
+        }
+        log(`Scene-cut sampling analyzed ${detector.stats.sent} of ${detector.stats.sent + detector.stats.skipped} probes.`);
+    } else {
+        for (const time of sampleTimes(duration, sampling.intervalSec)) {
+            if (shouldStop()) break;
+            showPosition(time);
+            await seekVideo(video, time);
+            const uncertain = await analyzeCurrentFrame(time, missingPeople);
 
-      setScanProgress(Math.min(Math.round((currentTime / duration) * 100), 99));
-      currentTime += interval;
+            if (sampling.strategy === 'COARSE_TO_FINE' && uncertain.length > 0 && !shouldStop()) {
+                // Only the people with an uncertain hit are re-checked on the dense pass
+                const suspects = missingPeople.filter(p => uncertain.some(d => d.personId === p.id));
+                const denseTimes = refinementTimes(time, duration, sampling, analyzed);
+                log(`Refining around ${formatVideoTime(time)}: ${denseTimes.length} extra frames for ${suspects.length} uncertain match(es).`);
+                for (const denseTime of denseTimes) {
+                    if (shouldStop()) break;
+                    setCurrentScanTime(formatVideoTime(denseTime));
+                    await seekVideo(video, denseTime);
+                    await analyzeCurrentFrame(denseTime, suspects);
+                }
+            }
+        }
     }
 
     setScanning(false);
-    if (!stopScanRef.current) {
+    if (!stopScanRef.current && !halted) {
         setScanProgress(100);
-        setScanLog(prev => ["Scan complete. No matches found in footage.", ...prev]);
+        if (found.length === 0) {
+            log("Scan complete. No matches found in footage.");
+        } else {
+            const peopleSeen = new Set(found.map(s => s.personId)).size;
+            log(`Scan complete. ${found.length} sightings of ${peopleSeen} people in footage.`);
+        }
     }
   };
 
   const runWebcamScan = async () => {
       if (!webcamRef.current) return;
       let scanCount = 0;
+      const detector = changeOptions.enabled ? createChangeDetector() : null;
+      const thresholds = thresholdsFor(matchPolicy, 'stream');
+      const streaks = createStreakTracker(matchPolicy.liveConsecutiveFrames);
+      // A registered camera sets its own pace; an unregistered webcam uses the default
+      const intervalMs = (deviceCameras.find(c => c.id === cameraId)?.scanIntervalSec ?? DEFAULT_SCAN_INTERVAL_SEC) * 1000;
+      setFrameStats({ sent: 0, skipped: 0 });
 
       while (true) {
           if (stopScanRef.current) break;
           if (!webcamRef.current) break;
 
-          const frameBase64 = captureFrame(webcamRef.current);
+          // An unchanged scene isn't worth an AI call
+          const change = detector?.check(webcamRef.current, changeOptions);
+          if (detector) setFrameStats({ ...detector.stats });
+          if (change && !change.changed) recordSkip();
+
+          const frameBase64 = change && !change.changed ? null : captureFrame(webcamRef.current);
           if (frameBase64) {
               const timeStamp = new Date().toLocaleTimeString();
-              setScanLog(prev => [`Live Cycle ${scanCount}: Checking ${missingPeople.length} targets...`, ...prev]);
+              log(`Live Cycle ${scanCount}: Checking ${missingPeople.length} targets${change?.forced ? ' (keepalive)' : ''}...`, 'FRAME', { frameLabel: `Cycle ${scanCount} (${timeStamp})` });
 
               try {
-                  const analysis = await scanCrowdForBatch(missingPeople, frameBase64);
-                  if (analysis.found && analysis.confidence > 75) {
-                      handleScanResult(analysis, "LIVE FEED");
+                  const analysis = await scanCrowdForBatch(missingPeople, frameBase64, batchOptions, { onRetry: logRetry });
+                  logValidationIssues(analysis);
+                  // A hit only counts once it holds for the configured number of consecutive frames
+                  const hits = streaks.update(acceptedDetections(analysis.detections, thresholds));
+                  recordFrame(`Cycle ${scanCount} (${timeStamp})`, analysis, hits.length);
+                  if (hits.length > 0) {
+                      handleScanResult({ ...analysis, detections: hits }, "LIVE FEED", frameBase64, thresholds);
                       setScanning(false);
                       return;
                   }
-              } catch (e) { console.error(e); }
+              } catch (e) {
+                  console.error(e);
+                  // The change was never analyzed - make sure the next frame goes out
+                  detector?.reset();
+                  const action = handleScanError(e, `Live Cycle ${scanCount}`);
+                  if (action === 'ABORT') break;
+                  if (action === 'COOLDOWN') await new Promise(r => setTimeout(r, QUOTA_COOLDOWN_MS));
+              }
           }
 
           scanCount++;
           setScanProgress((scanCount % 10) * 10);
-          await new Promise(r => setTimeout(r, 2000));
+          await new Promise(r => setTimeout(r, intervalMs));
       }
       setScanning(false);
   };
 
-  const handleScanResult = (analysis: any, timestamp: string) => {
-      if (analysis.found && analysis.personId) {
+  const logValidationIssues = (analysis: BatchScanResult) => {
+      if (analysis.issues.length === 0) return;
+      analysis.issues.forEach(issue => log(`VALIDATION [${issue.code}]: ${issue.message}`, 'ERROR'));
+  };
+
+  const logRetry = (error: RecognitionError, attempt: number, delayMs: number) => {
+      log(`${error.kind}: retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s...`, 'ERROR');
+  };
+
+  // Logs a failed frame and decides whether the scan can carry on
+  const handleScanError = (raw: unknown, context: string): ErrorAction => {
+      const error = classifyError(raw);
+      setScanError(error);
+
+      switch (error.kind) {
+          case 'AUTH':
+              // Every further request would fail the same way
+              stopScanRef.current = true;
+              log(`FATAL: ${describeErrorKind(error.kind)} Scan halted.`, 'ERROR');
+              return 'ABORT';
+          case 'QUOTA':
+              log(`${context}: ${describeErrorKind(error.kind)} Cooling down ${QUOTA_COOLDOWN_MS / 1000}s.`, 'ERROR');
+              return 'COOLDOWN';
+          case 'SAFETY_BLOCK':
+              log(`${context}: frame blocked by safety filter. Skipped.`, 'ERROR');
+              return 'SKIP';
+          case 'INVALID_RESPONSE':
+              log(`${context}: INVALID AI RESPONSE - ${error.message}. Skipped.`, 'ERROR');
+              return 'SKIP';
+          default:
+              log(`${context} failed: ${describeErrorKind(error.kind)}`, 'ERROR');
+              return 'SKIP';
+      }
+  };
+
+  // Surfaces a frame's hits and queues them for review. Returns the detections that were accepted.
+  const handleScanResult = (analysis: BatchScanResult, timestamp: string, frame: string, thresholds: MatchThresholds): Detection[] => {
+      // Already validated against the reference set by scanCrowdForBatch
+      const detections = analysis.detections;
+
+      if (detections.length > 0) {
         setResult({
             found: true,
-            personId: analysis.personId,
-            confidence: analysis.confidence,
-            description: analysis.explanation,
+            detections,
+            description: analysis.summary,
             timestamp: new Date().toLocaleTimeString(),
             locationContext: timestamp,
-            boundingBox: analysis.box_2d
         });
-        onUpdatePersonStatus(analysis.personId, 'FOUND');
-        
-        const matchedPerson = missingPeople.find(p => p.id === analysis.personId);
-        setScanLog(prev => [`MATCH CONFIRMED: ${matchedPerson?.name || 'Unknown'} (${analysis.confidence}%)`, ...prev]);
+
+        // AI hits never close a case directly - they go to the review queue
+        detections.forEach(detection => {
+            const tier = classifyConfidence(detection.confidence, thresholds) === 'FLAG' ? 'FLAG' : 'REVIEW';
+            const candidate: MatchCandidate = {
+                id: crypto.randomUUID(),
+                personId: detection.personId,
+                confidence: detection.confidence,
+                explanation: detection.explanation,
+                boundingBox: detection.boundingBox,
+                frame,
+                locationContext: timestamp,
+                sourceLocation,
+                sourceLabel: sourceLabel.trim() || undefined,
+                sessionId: sessionRef.current?.id,
+                tier,
+                detectedAt: new Date().toISOString(),
+                status: 'PENDING',
+            };
+            onMatchCandidate(candidate);
+
+            const name = missingPeople.find(p => p.id === detection.personId)?.name || 'Unknown';
+            log(`${tier === 'FLAG' ? 'POSSIBLE MATCH' : 'LOW-CONFIDENCE MATCH'}: ${name} (${detection.confidence}%) - queued for review`, 'RESULT', {
+                frameLabel: timestamp,
+                detections: [{ personId: detection.personId, confidence: detection.confidence }],
+                candidateId: candidate.id,
+            });
+        });
       } else {
         setResult({
             found: false,
-            confidence: 0,
+            detections: [],
             description: "No match found",
             timestamp: new Date().toLocaleTimeString(),
         });
-        setScanLog(prev => ["Negative result.", ...prev]);
+        log("Negative result.", 'RESULT', { frameLabel: timestamp });
       }
+      return detections;
+  };
+
+  // Jump the player to a sighting and show its boxes on that frame
+  const seekToSighting = (sighting: VideoSighting) => {
+      if (!videoRef.current || scanning) return;
+      videoRef.current.pause();
+      videoRef.current.currentTime = sighting.videoTime;
+      setCurrentScanTime(formatVideoTime(sighting.videoTime));
+      setResult({
+          found: true,
+          detections: sightings.filter(s => s.videoTime === sighting.videoTime),
+          description: sighting.explanation,
+          timestamp: new Date().toLocaleTimeString(),
+          locationContext: formatVideoTime(sighting.videoTime),
+      });
   };
 
-  const getBoundingBoxStyle = () => {
-    if (!result?.boundingBox) return {};
-    const [ymin, xmin, ymax, xmax] = result.boundingBox;
+  // Per-person sightings report, people in order of first appearance
+  const sightingsByPerson = sightings.reduce<{ person: Person; sightings: VideoSighting[] }[]>((groups, sighting) => {
+      const group = groups.find(g => g.person.id === sighting.personId);
+      if (group) {
+          group.sightings.push(sighting);
+      } else {
+          const person = people.find(p => p.id === sighting.personId);
+          if (person) groups.push({ person, sightings: [sighting] });
+      }
+      return groups;
+  }, []);
+
+  const getBoundingBoxStyle = (box: [number, number, number, number]) => {
+    const [ymin, xmin, ymax, xmax] = box;
     return {
         top: `${ymin / 10}%`,
         left: `${xmin / 10}%`,
@@ -302,10 +574,11 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
     };
   };
 
-  // Find details of matched person if result exists
-  const matchedPerson = result?.found && result.personId 
-    ? people.find(p => p.id === result.personId) 
-    : null;
+  // Resolve each detection in the current result to its person record
+  const matchedDetections = (result?.detections || [])
+    .map(detection => ({ detection, person: people.find(p => p.id === detection.personId) }))
+    .filter((m): m is { detection: typeof m.detection; person: Person } => !!m.person);
+  const isMatched = (id: string) => matchedDetections.some(m => m.person.id === id);
 
   return (
     <div className="p-6 lg:p-8 w-full min-h-full">
@@ -351,13 +624,18 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                             {missingPeople.map(p => (
                                 <div 
                                     key={p.id} 
-                                    className={`relative group rounded-lg overflow-hidden border transition-all ${result?.personId === p.id ? 'border-neon-green shadow-[0_0_10px_#10b981] scale-105 z-10' : 'border-slate-700 opacity-70'}`}
+                                    className={`relative group rounded-lg overflow-hidden border transition-all ${isMatched(p.id) ? 'border-neon-green shadow-[0_0_10px_#10b981] scale-105 z-10' : 'border-slate-700 opacity-70'}`}
                                 >
                                     <img src={p.imageUrl} className="w-full h-20 object-cover" alt={p.name} />
+                                    {p.status === 'SIGHTED' && (
+                                        <div className="absolute top-1 right-1 bg-yellow-400 text-black text-[8px] font-bold px-1 rounded" title="Sighted - awaiting review">
+                                            SIGHTED
+                                        </div>
+                                    )}
                                     <div className="absolute bottom-0 left-0 w-full bg-black/70 text-[8px] text-white p-1 truncate">
                                         {p.name}
                                     </div>
-                                    {result?.personId === p.id && (
+                                    {isMatched(p.id) && (
                                         <div className="absolute inset-0 bg-neon-green/20 flex items-center justify-center">
                                             <Target className="text-neon-green w-6 h-6 animate-pulse" />
                                         </div>
@@ -368,6 +646,47 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                     )}
                 </div>
 
+                {/* Batch Settings */}
+                <div className="space-y-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Reference Batching</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-[10px] text-slate-400 space-y-1">
+                            <span>Group size</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_PEOPLE_PER_REQUEST}
+                                disabled={scanning}
+                                value={batchOptions.groupSize}
+                                onChange={e => setBatchOptions(prev => ({ ...prev, groupSize: Math.min(MAX_PEOPLE_PER_REQUEST, Math.max(1, Number(e.target.value) || 1)) }))}
+                                className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white font-mono focus:border-neon-blue outline-none disabled:opacity-50"
+                            />
+                        </label>
+                        <label className="text-[10px] text-slate-400 space-y-1">
+                            <span>Concurrency</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={8}
+                                disabled={scanning}
+                                value={batchOptions.concurrency}
+                                onChange={e => setBatchOptions(prev => ({ ...prev, concurrency: Math.max(1, Number(e.target.value) || 1) }))}
+                                className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white font-mono focus:border-neon-blue outline-none disabled:opacity-50"
+                            />
+                        </label>
+                    </div>
+                    <p className="text-[10px] text-slate-500 font-mono">
+                        {requestsPerFrame} request{requestsPerFrame === 1 ? '' : 's'} per frame
+                    </p>
+                </div>
+
+                <ChangeDetectionSettings
+                    value={changeOptions}
+                    onChange={setChangeOptions}
+                    disabled={scanning}
+                    stats={mediaType === 'stream' ? frameStats : undefined}
+                />
+
                 {/* Media Selection */}
                 <div className="space-y-4">
                     <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
@@ -383,17 +702,29 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                             Upload File
                         </button>
                         <button 
-                            onClick={enableWebcam}
+                            onClick={() => enableWebcam(deviceCameras.find(c => c.id === cameraId))}
                             className={`text-xs py-2 rounded border transition-colors ${mediaType === 'stream' ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
                         >
                             Live Camera
                         </button>
                     </div>
 
+                    {deviceCameras.length > 0 && (
+                        <select
+                            disabled={scanning}
+                            value={cameraId}
+                            onChange={e => enableWebcam(deviceCameras.find(c => c.id === e.target.value))}
+                            className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white focus:border-neon-blue outline-none disabled:opacity-50"
+                        >
+                            <option value="">Default camera</option>
+                            {deviceCameras.map(camera => <option key={camera.id} value={camera.id}>{camera.name}</option>)}
+                        </select>
+                    )}
+
                     {mediaType === 'stream' ? (
                          <div className="border-2 border-neon-blue bg-neon-blue/5 rounded-xl p-6 flex flex-col items-center justify-center h-32 animate-pulse">
                             <Camera className="w-8 h-8 text-neon-blue mb-2" />
-                            <p className="text-sm text-neon-blue font-bold">Webcam Active</p>
+                            <p className="text-sm text-neon-blue font-bold">{deviceCameras.find(c => c.id === cameraId)?.name || 'Webcam'} Active</p>
                             <p className="text-[10px] text-slate-400">Streaming live feed...</p>
                         </div>
                     ) : (
@@ -426,6 +757,96 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                     )}
                 </div>
 
+                {/* Camera / Source Location */}
+                <div className="space-y-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Source Location</label>
+                    <input
+                        type="text"
+                        placeholder="Camera name / place (optional)"
+                        disabled={scanning}
+                        value={sourceLabel}
+                        onChange={e => setSourceLabel(e.target.value)}
+                        className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white focus:border-neon-blue outline-none disabled:opacity-50"
+                    />
+                    <LocationPicker
+                        value={sourceLocation}
+                        onChange={setSourceLocation}
+                        inputClassName="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white focus:border-neon-blue outline-none"
+                    />
+                </div>
+
+                {/* Video Scan Mode */}
+                {mediaType === 'video' && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">Footage Mode</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button 
+                                onClick={() => setVideoScanMode('FIRST_HIT')}
+                                disabled={scanning}
+                                className={`text-xs py-2 rounded border transition-colors disabled:opacity-50 ${videoScanMode === 'FIRST_HIT' ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                            >
+                                Stop at First Hit
+                            </button>
+                            <button 
+                                onClick={() => setVideoScanMode('FULL')}
+                                disabled={scanning}
+                                className={`text-xs py-2 rounded border transition-colors disabled:opacity-50 ${videoScanMode === 'FULL' ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                            >
+                                Full Footage
+                            </button>
+                        </div>
+
+                        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block pt-2">Frame Sampling</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {(Object.keys(SAMPLING_LABELS) as SamplingStrategy[]).map(strategy => (
+                                <button
+                                    key={strategy}
+                                    onClick={() => setSamplingOptions(prev => ({ ...prev, strategy }))}
+                                    disabled={scanning}
+                                    className={`text-[10px] py-2 rounded border transition-colors disabled:opacity-50 ${samplingOptions.strategy === strategy ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                                >
+                                    {SAMPLING_LABELS[strategy]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {samplingOptions.strategy === 'SCENE_CUT' ? (
+                                <>
+                                    <label className="text-[10px] text-slate-400 space-y-1">
+                                        <span>Cut sensitivity</span>
+                                        <input type="number" min={0} max={100} disabled={scanning} value={samplingOptions.sceneSensitivity}
+                                            onChange={e => setSamplingOptions(prev => ({ ...prev, sceneSensitivity: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+                                            className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white font-mono focus:border-neon-blue outline-none disabled:opacity-50" />
+                                    </label>
+                                    <label className="text-[10px] text-slate-400 space-y-1">
+                                        <span>Max gap (s)</span>
+                                        <input type="number" min={1} disabled={scanning} value={samplingOptions.maxGapSec}
+                                            onChange={e => setSamplingOptions(prev => ({ ...prev, maxGapSec: Math.max(1, Number(e.target.value) || 1) }))}
+                                            className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white font-mono focus:border-neon-blue outline-none disabled:opacity-50" />
+                                    </label>
+                                </>
+                            ) : (
+                                <>
+                                    <label className="text-[10px] text-slate-400 space-y-1">
+                                        <span>{samplingOptions.strategy === 'FIXED' ? 'Interval (s)' : 'Coarse step (s)'}</span>
+                                        <input type="number" min={0.5} step={0.5} disabled={scanning} value={samplingOptions.intervalSec}
+                                            onChange={e => setSamplingOptions(prev => ({ ...prev, intervalSec: Math.max(0.5, Number(e.target.value) || 0.5) }))}
+                                            className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white font-mono focus:border-neon-blue outline-none disabled:opacity-50" />
+                                    </label>
+                                    {samplingOptions.strategy === 'COARSE_TO_FINE' && (
+                                        <label className="text-[10px] text-slate-400 space-y-1">
+                                            <span>Refine from (%)</span>
+                                            <input type="number" min={1} max={videoFlagThreshold} disabled={scanning} value={samplingOptions.refineMinConfidence}
+                                                onChange={e => setSamplingOptions(prev => ({ ...prev, refineMinConfidence: Math.min(videoFlagThreshold, Math.max(1, Number(e.target.value) || 1)) }))}
+                                                className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white font-mono focus:border-neon-blue outline-none disabled:opacity-50" />
+                                        </label>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Control Panel (Replaces Start Button) */}
                 {mediaType && (
                     <div className="bg-slate-950 border border-slate-800 rounded-xl p-4 flex items-center justify-between animate-in fade-in slide-in-from-top-2">
@@ -454,6 +875,18 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                     </div>
                 )}
 
+                {/* Last AI error */}
+                {scanError && (
+                    <div className={`flex items-start gap-2 p-3 rounded-lg border text-xs ${scanError.kind === 'AUTH' ? 'border-red-500/50 bg-red-500/10 text-red-300' : 'border-yellow-500/40 bg-yellow-500/10 text-yellow-300'}`}>
+                        <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                        <div className="flex-1">
+                            <p className="font-bold">{scanError.kind.replace('_', ' ')}</p>
+                            <p className="opacity-80">{describeErrorKind(scanError.kind)}</p>
+                        </div>
+                        <button onClick={() => setScanError(null)} className="opacity-60 hover:opacity-100">✕</button>
+                    </div>
+                )}
+
                 {/* Log */}
                 <div className="h-64 bg-black rounded-lg p-4 border border-slate-800 font-mono text-xs overflow-y-auto custom-scrollbar shadow-inner shrink-0">
                     <div className="text-slate-500 mb-2 border-b border-slate-800 pb-1 sticky top-0 bg-black">/// SYSTEM LOG ///</div>
@@ -513,11 +946,12 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                         </div>
                     )}
 
-                    {/* TARGET BOUNDING BOX OVERLAY */}
-                    {!scanning && result?.found && result.boundingBox && (
+                    {/* TARGET BOUNDING BOX OVERLAYS */}
+                    {!scanning && matchedDetections.map(({ detection, person }) => detection.boundingBox && (
                         <div 
+                            key={person.id}
                             className="absolute border-2 border-neon-green bg-neon-green/20 z-20 shadow-[0_0_30px_rgba(16,185,129,0.5)] animate-pulse"
-                            style={getBoundingBoxStyle()}
+                            style={getBoundingBoxStyle(detection.boundingBox)}
                         >
                             <div className="absolute -top-1 -left-1 w-3 h-3 border-t-2 border-l-2 border-neon-green"></div>
                             <div className="absolute -top-1 -right-1 w-3 h-3 border-t-2 border-r-2 border-neon-green"></div>
@@ -526,10 +960,10 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                             
                             <div className="absolute -top-8 left-0 bg-neon-green text-black text-[10px] font-bold px-2 py-1 rounded-t flex items-center gap-1 whitespace-nowrap">
                                 <Target className="w-3 h-3" />
-                                MATCH: {matchedPerson?.name.toUpperCase()} ({result.confidence}%)
+                                MATCH: {person.name.toUpperCase()} ({detection.confidence}%)
                             </div>
                         </div>
-                    )}
+                    ))}
                             
                     {/* Scanning HUD Overlay */}
                     {scanning && (
@@ -569,44 +1003,87 @@ export const Scan: React.FC<ScanProps> = ({ people, onUpdatePersonStatus }) => {
                     <div className="flex items-center gap-4 text-xs font-mono text-slate-500 border-l border-slate-800 pl-6">
                         <div className="flex flex-col">
                             <span>TARGETS: {missingPeople.length}</span>
-                            <span>AI: GEMINI 2.5</span>
+                            <span>AI: {recognitionProvider.label.toUpperCase()}</span>
                         </div>
                     </div>
                 </div>
 
                 {/* Result Popover - Only shown if found */}
-                {!scanning && result?.found && matchedPerson && (
-                     <div className="absolute bottom-20 right-6 z-30 bg-slate-900/90 backdrop-blur-md border border-green-500/50 rounded-xl p-4 w-80 shadow-2xl animate-in slide-in-from-right duration-500">
-                        <div className="flex items-start gap-3">
-                            <div className="relative">
-                                <img src={matchedPerson.imageUrl} className="w-12 h-12 rounded-full object-cover border-2 border-green-500" alt="Match" />
-                                <div className="absolute -bottom-1 -right-1 bg-green-500 rounded-full p-0.5">
-                                    <CheckCircle className="w-3 h-3 text-black" />
-                                </div>
-                            </div>
-                            <div>
-                                <h3 className="text-green-500 font-bold mb-0.5 text-sm">TARGET LOCATED</h3>
-                                <p className="text-white font-bold text-lg leading-none mb-1">{matchedPerson.name}</p>
-                                <p className="text-xs text-slate-300 leading-relaxed mb-2">{result.description}</p>
-                                <div className="flex gap-2 flex-wrap">
-                                    <span className="text-[10px] bg-green-500/10 text-green-400 px-2 py-0.5 rounded border border-green-500/20">
-                                        Conf: {result.confidence}%
-                                    </span>
-                                    <span className="text-[10px] bg-slate-800 text-slate-400 px-2 py-0.5 rounded">
-                                        Wearing: {matchedPerson.lastSeenClothing}
-                                    </span>
+                {!scanning && result?.found && matchedDetections.length > 0 && (
+                     <div className="absolute bottom-20 right-6 z-30 bg-slate-900/90 backdrop-blur-md border border-green-500/50 rounded-xl p-4 w-80 shadow-2xl animate-in slide-in-from-right duration-500 max-h-[70%] overflow-y-auto custom-scrollbar">
+                        <h3 className="text-yellow-400 font-bold mb-3 text-sm">
+                            {matchedDetections.length > 1 ? `${matchedDetections.length} POSSIBLE MATCHES` : 'POSSIBLE MATCH'} - PENDING REVIEW
+                        </h3>
+                        <div className="space-y-4">
+                            {matchedDetections.map(({ detection, person }) => (
+                                <div key={person.id} className="flex items-start gap-3">
+                                    <div className="relative shrink-0">
+                                        <img src={person.imageUrl} className="w-12 h-12 rounded-full object-cover border-2 border-green-500" alt="Match" />
+                                        <div className="absolute -bottom-1 -right-1 bg-green-500 rounded-full p-0.5">
+                                            <CheckCircle className="w-3 h-3 text-black" />
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <p className="text-white font-bold text-lg leading-none mb-1">{person.name}</p>
+                                        <p className="text-xs text-slate-300 leading-relaxed mb-2">{detection.explanation}</p>
+                                        <div className="flex gap-2 flex-wrap">
+                                            <span className="text-[10px] bg-green-500/10 text-green-400 px-2 py-0.5 rounded border border-green-500/20">
+                                                Conf: {detection.confidence}%
+                                            </span>
+                                            <span className="text-[10px] bg-slate-800 text-slate-400 px-2 py-0.5 rounded">
+                                                Wearing: {person.lastSeenClothing}
+                                            </span>
+                                        </div>
+                                    </div>
                                 </div>
-                                <button onClick={() => setResult(null)} className="mt-3 text-xs text-slate-500 hover:text-white underline w-full text-right">
-                                    Acknowledge
-                                </button>
-                            </div>
+                            ))}
                         </div>
+                        <button onClick={() => setResult(null)} className="mt-3 text-xs text-slate-500 hover:text-white underline w-full text-right">
+                            Acknowledge
+                        </button>
                      </div>
                 )}
 
                 <canvas ref={canvasRef} className="hidden" />
             </div>
         </div>
+
+        {/* Sightings Report (video footage) */}
+        {mediaType === 'video' && sightingsByPerson.length > 0 && (
+            <div className="mt-8 bg-slate-900 border border-slate-800 rounded-2xl p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                        <Crosshair className="w-5 h-5 text-neon-blue" />
+                        Sightings Report
+                    </h3>
+                    <span className="text-xs font-mono text-slate-500">{sightings.length} hits · {sightingsByPerson.length} people</span>
+                </div>
+                <div className="space-y-4">
+                    {sightingsByPerson.map(({ person, sightings: personSightings }) => (
+                        <div key={person.id} className="flex items-start gap-4 p-3 rounded-lg bg-slate-950 border border-slate-800">
+                            <img src={person.imageUrl} alt={person.name} className="w-12 h-12 rounded-full object-cover border border-slate-700 shrink-0" />
+                            <div className="flex-1">
+                                <p className="text-white font-bold">{person.name}</p>
+                                <p className="text-xs text-slate-500 mb-2">{personSightings.length} appearance{personSightings.length > 1 ? 's' : ''}</p>
+                                <div className="flex gap-2 flex-wrap">
+                                    {personSightings.map(sighting => (
+                                        <button
+                                            key={sighting.id}
+                                            onClick={() => seekToSighting(sighting)}
+                                            disabled={scanning}
+                                            title={sighting.explanation}
+                                            className="text-[10px] font-mono px-2 py-1 rounded border border-neon-blue/40 text-neon-blue hover:bg-neon-blue/10 disabled:opacity-50 flex items-center gap-1"
+                                        >
+                                            <Play className="w-3 h-3" /> {formatVideoTime(sighting.videoTime)} · {sighting.confidence}%
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CameraSource, MatchCandidate, Person, ScanSession, SessionLogEntry, SessionLogKind } from '../types';
+import { ScrollText, Search, Play, Pause, SkipForward, RotateCcw, Video, Image as ImageIcon, Camera, Inbox } from 'lucide-react';
+import { EMPTY_SESSION_QUERY, SOURCE_LABELS, SessionQuery, describeSession, querySessions } from '../services/sessionQuery';
+import { formatDuration } from '../services/dashboardStats';
+
+interface SessionsProps {
+  sessions: ScanSession[];
+  people: Person[];
+  cameras: CameraSource[];
+  candidates: MatchCandidate[];
+  loadLog: (sessionId: string) => Promise<SessionLogEntry[]>;
+  onOpenCase: (id: string) => void;
+}
+
+const SOURCE_ICONS: Record<ScanSession['source'], React.FC<{ className?: string }>> = {
+  image: ImageIcon,
+  video: Video,
+  stream: Camera,
+};
+
+const KIND_STYLES: Record<SessionLogKind, string> = {
+  INFO: 'text-slate-400',
+  FRAME: 'text-slate-500',
+  RESULT: 'text-neon-blue',
+  ERROR: 'text-yellow-400',
+  OPERATOR: 'text-neon-green',
+};
+
+const LOG_KINDS = Object.keys(KIND_STYLES) as SessionLogKind[];
+const REPLAY_SPEEDS = [1, 4, 16];
+// Long idle gaps (e.g. a live feed's scan interval) are shortened during replay
+const MAX_REPLAY_STEP_MS = 2000;
+
+const filterInputClass = "bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-white focus:border-neon-blue outline-none";
+
+export const Sessions: React.FC<SessionsProps> = ({ sessions, people, cameras, candidates, loadLog, onOpenCase }) => {
+  const [query, setQuery] = useState<SessionQuery>(EMPTY_SESSION_QUERY);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [log, setLog] = useState<SessionLogEntry[]>([]);
+  const [loadingLog, setLoadingLog] = useState(false);
+  const [hiddenKinds, setHiddenKinds] = useState<SessionLogKind[]>([]);
+  // Number of entries revealed while replaying; null shows the whole log
+  const [replayCount, setReplayCount] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[1]);
+
+  const results = useMemo(() => querySessions(sessions, query, people, cameras), [sessions, query, people, cameras]);
+  const selected = sessions.find(s => s.id === selectedId) || null;
+
+  useEffect(() => {
+    setReplayCount(null);
+    setPlaying(false);
+    if (!selectedId) return;
+
+    let stale = false;
+    setLoadingLog(true);
+    loadLog(selectedId)
+      .then(entries => { if (!stale) setLog(entries); })
+      .catch(err => {
+        console.error("Failed to load session log:", err);
+        if (!stale) setLog([]);
+      })
+      .finally(() => { if (!stale) setLoadingLog(false); });
+    return () => { stale = true; };
+  }, [selectedId]);
+
+  // Replay: reveal entries with their original spacing, sped up
+  useEffect(() => {
+    if (!playing || replayCount === null) return;
+    if (replayCount >= log.length) {
+      setPlaying(false);
+      return;
+    }
+    const gap = replayCount === 0 ? 0
+      : Date.parse(log[replayCount].timestamp) - Date.parse(log[replayCount - 1].timestamp);
+    const timer = setTimeout(() => setReplayCount(replayCount + 1), Math.min(MAX_REPLAY_STEP_MS, gap / speed));
+    return () => clearTimeout(timer);
+  }, [playing, replayCount, speed, log]);
+
+  const startReplay = () => {
+    setReplayCount(0);
+    setPlaying(true);
+  };
+
+  const toggleKind = (kind: SessionLogKind) => {
+    setHiddenKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+  };
+
+  const visibleLog = (replayCount === null ? log : log.slice(0, replayCount))
+    .filter(entry => !hiddenKinds.includes(entry.kind));
+  const sessionCandidates = selected ? candidates.filter(c => c.sessionId === selected.id) : [];
+  const references = (selected?.referenceIds || [])
+    .map(id => people.find(p => p.id === id))
+    .filter((p): p is Person => !!p);
+  const personName = (id: string) => people.find(p => p.id === id)?.name || 'Unknown record';
+
+  return (
+    <div className="p-6 lg:p-10 w-full">
+      <header className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <ScrollText className="text-neon-blue w-8 h-8" />
+            Scan Sessions
+          </h1>
+          <p className="text-slate-400">Audit trail of every scan: sources, frames, AI results and operator actions.</p>
+        </div>
+        <div className="text-slate-500 font-mono text-sm">
+          Sessions: {results.length === sessions.length ? sessions.length : `${results.length} / ${sessions.length}`}
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Session list */}
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                placeholder="Source, camera, person..."
+                className={`${filterInputClass} w-full pl-9`}
+                value={query.text}
+                onChange={e => setQuery(prev => ({ ...prev, text: e.target.value }))}
+              />
+            </div>
+            <select
+              className={filterInputClass}
+              value={query.source}
+              onChange={e => setQuery(prev => ({ ...prev, source: e.target.value as SessionQuery['source'] }))}
+            >
+              <option value="ALL">All sources</option>
+              {(Object.keys(SOURCE_LABELS) as ScanSession['source'][]).map(source => (
+                <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2 max-h-[70vh] overflow-y-auto custom-scrollbar pr-1">
+            {results.length === 0 && (
+              <p className="text-sm text-slate-500 text-center py-10">No sessions match.</p>
+            )}
+            {results.map(session => {
+              const Icon = SOURCE_ICONS[session.source];
+              return (
+                <button
+                  key={session.id}
+                  onClick={() => setSelectedId(session.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${selectedId === session.id ? 'border-neon-blue bg-neon-blue/10' : 'border-slate-800 bg-slate-900 hover:bg-slate-800'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Icon className="w-4 h-4 text-neon-blue shrink-0" />
+                    <span className="text-sm text-white font-medium truncate flex-1">{describeSession(session, cameras)}</span>
+                    {!session.endedAt && <span className="text-[10px] font-bold text-neon-red animate-pulse">RUNNING</span>}
+                  </div>
+                  <div className="flex justify-between text-[10px] font-mono text-slate-500 mt-1">
+                    <span>{new Date(session.startedAt).toLocaleString()}</span>
+                    <span>{session.framesAnalyzed} frames · {session.detections} hits</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Session detail */}
+        <div className="xl:col-span-2">
+          {!selected ? (
+            <div className="flex flex-col items-center justify-center h-64 text-slate-500 border-2 border-dashed border-slate-800 rounded-2xl">
+              <Inbox className="w-16 h-16 mb-4 opacity-50" />
+              <p>Select a session to inspect its log.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-white">{describeSession(selected, cameras)}</h3>
+                    <p className="text-[10px] font-mono text-slate-500">SESSION {selected.id}</p>
+                  </div>
+                  <span className="text-xs font-bold px-3 py-1 rounded-full border border-slate-700 text-slate-300">
+                    {SOURCE_LABELS[selected.source].toUpperCase()}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs font-mono">
+                  <div>
+                    <p className="text-slate-500">STARTED</p>
+                    <p className="text-white">{new Date(selected.startedAt).toLocaleString()}</p>
+                    {selected.startedBy && <p className="text-slate-500">by {selected.startedBy.name}</p>}
+                  </div>
+                  <div>
+                    <p className="text-slate-500">DURATION</p>
+                    <p className="text-white">
+                      {selected.endedAt ? formatDuration(Date.parse(selected.endedAt) - Date.parse(selected.startedAt)) : 'Running'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-500">FRAMES</p>
+                    <p className="text-white">{selected.framesAnalyzed} ({selected.framesWithHits} with hits)</p>
+                    {!!selected.framesSkipped && <p className="text-slate-500">{selected.framesSkipped} unchanged, skipped</p>}
+                  </div>
+                  <div>
+                    <p className="text-slate-500">CANDIDATES</p>
+                    <p className="text-white">{sessionCandidates.length}</p>
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <p className="text-xs text-slate-500 uppercase font-bold mb-2">Reference Set ({selected.referenceIds?.length ?? 'not recorded'})</p>
+                  <div className="flex flex-wrap gap-2">
+                    {references.map(person => (
+                      <button
+                        key={person.id}
+                        onClick={() => onOpenCase(person.id)}
+                        className="flex items-center gap-2 px-2 py-1 rounded-full bg-slate-950 border border-slate-800 hover:border-neon-blue text-xs text-slate-300"
+                      >
+                        <img src={person.imageUrl} alt={person.name} className="w-5 h-5 rounded-full object-cover" />
+                        {person.name}
+                      </button>
+                    ))}
+                    {(selected.referenceIds?.length || 0) > references.length && (
+                      <span className="text-xs text-slate-500 self-center">
+                        +{selected.referenceIds!.length - references.length} deleted record(s)
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Log + replay */}
+              <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <div className="flex flex-wrap gap-1">
+                    {LOG_KINDS.map(kind => (
+                      <button
+                        key={kind}
+                        onClick={() => toggleKind(kind)}
+                        className={`text-[10px] font-bold px-2 py-1 rounded border ${hiddenKinds.includes(kind) ? 'border-slate-800 text-slate-600' : `border-slate-700 ${KIND_STYLES[kind]}`}`}
+                      >
+                        {kind}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {replayCount === null ? (
+                      <button onClick={startReplay} disabled={log.length === 0}
+                        className="text-xs flex items-center gap-1 px-3 py-1.5 rounded border border-neon-blue/50 text-neon-blue hover:bg-neon-blue/10 disabled:opacity-50">
+                        <Play className="w-3 h-3" /> Replay
+                      </button>
+                    ) : (
+                      <>
+                        <button onClick={() => setPlaying(!playing)} disabled={replayCount >= log.length}
+                          className="p-1.5 rounded border border-slate-700 text-slate-300 hover:text-white disabled:opacity-50">
+                          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                        </button>
+                        <button onClick={() => setReplayCount(Math.min(log.length, replayCount + 1))} disabled={replayCount >= log.length}
+                          className="p-1.5 rounded border border-slate-700 text-slate-300 hover:text-white disabled:opacity-50">
+                          <SkipForward className="w-3 h-3" />
+                        </button>
+                        <button onClick={() => { setPlaying(false); setReplayCount(null); }}
+                          className="p-1.5 rounded border border-slate-700 text-slate-300 hover:text-white" title="Show full log">
+                          <RotateCcw className="w-3 h-3" />
+                        </button>
+                        <span className="text-[10px] font-mono text-slate-500">{replayCount}/{log.length}</span>
+                      </>
+                    )}
+                    <select className="bg-slate-950 border border-slate-800 rounded text-[10px] text-white p-1" value={speed} onChange={e => setSpeed(Number(e.target.value))}>
+                      {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="h-96 bg-black rounded-lg p-4 border border-slate-800 font-mono text-xs overflow-y-auto custom-scrollbar">
+                  {loadingLog && <span className="text-slate-600">Loading...</span>}
+                  {!loadingLog && log.length === 0 && <span className="text-slate-600">No log recorded for this session.</span>}
+                  {visibleLog.map(entry => (
+                    <div key={entry.id} className={`mb-1 flex gap-3 ${KIND_STYLES[entry.kind]}`}>
+                      <span className="text-slate-600 shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                      <span className="w-16 shrink-0">{entry.kind}</span>
+                      <span className="flex-1">
+                        {entry.message}
+                        {entry.detections && entry.detections.length > 1 && (
+                          <span className="text-slate-500"> [{entry.detections.map(d => `${personName(d.personId)} ${d.confidence}%`).join(', ')}]</span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {sessionCandidates.length > 0 && (
+                <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6">
+                  <h3 className="text-lg font-semibold text-white mb-4">Candidates from this Session</h3>
+                  <div className="space-y-2">
+                    {sessionCandidates.map(candidate => (
+                      <div key={candidate.id} className="flex items-center gap-4 p-3 rounded-lg bg-slate-950 border border-slate-800 text-sm">
+                        <img src={candidate.frame} alt="Frame" className="w-16 h-10 object-cover rounded" />
+                        <button onClick={() => onOpenCase(candidate.personId)} className="text-white font-medium w-40 truncate text-left hover:text-neon-blue">
+                          {personName(candidate.personId)}
+                        </button>
+                        <span className="text-xs text-slate-500 font-mono flex-1">{candidate.confidence}% · {candidate.locationContext}</span>
+                        <span className="text-[10px] px-2 py-1 rounded-full font-bold bg-slate-800 text-slate-300">{candidate.status}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Save, RotateCcw, AlertTriangle, Printer } from 'lucide-react';
+import { PosterSettings } from '../services/casePdf';
+import { DEFAULT_MATCH_POLICY, MATCH_SOURCE_LABELS, MatchPolicy, MatchSource, MatchThresholds, validateMatchPolicy } from '../services/matchPolicy';
+
+interface SettingsProps {
+  matchPolicy: MatchPolicy;
+  onSaveMatchPolicy: (policy: MatchPolicy) => void;
+  posterSettings: PosterSettings;
+  onSavePosterSettings: (settings: PosterSettings) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white font-mono focus:border-neon-blue outline-none disabled:opacity-50";
+
+const SOURCES = Object.keys(MATCH_SOURCE_LABELS) as MatchSource[];
+
+const ThresholdInputs: React.FC<{ value: MatchThresholds; onChange: (value: MatchThresholds) => void; disabled?: boolean }> = ({ value, onChange, disabled }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <label className="text-[10px] text-slate-400 space-y-1">
+      <span>Flag as sighted at (%)</span>
+      <input type="number" min={0} max={100} disabled={disabled} value={value.flag}
+        onChange={e => onChange({ ...value, flag: Number(e.target.value) })} className={inputClass} />
+    </label>
+    <label className="text-[10px] text-slate-400 space-y-1">
+      <span>Queue for review at (%)</span>
+      <input type="number" min={0} max={100} disabled={disabled} value={value.review}
+        onChange={e => onChange({ ...value, review: Number(e.target.value) })} className={inputClass} />
+    </label>
+  </div>
+);
+
+export const Settings: React.FC<SettingsProps> = ({ matchPolicy, onSaveMatchPolicy, posterSettings, onSavePosterSettings }) => {
+  const [draft, setDraft] = useState<MatchPolicy>(matchPolicy);
+  const [posterDraft, setPosterDraft] = useState<PosterSettings>(posterSettings);
+
+  // Stored settings load asynchronously; pick them up once they arrive
+  useEffect(() => setDraft(matchPolicy), [matchPolicy]);
+  useEffect(() => setPosterDraft(posterSettings), [posterSettings]);
+  const posterDirty = JSON.stringify(posterDraft) !== JSON.stringify(posterSettings);
+
+  const problem = validateMatchPolicy(draft);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(matchPolicy);
+
+  const setOverride = (source: MatchSource, thresholds: MatchThresholds | undefined) => {
+    setDraft(prev => {
+      const { [source]: _, ...rest } = prev.overrides;
+      return { ...prev, overrides: thresholds ? { ...rest, [source]: thresholds } : rest };
+    });
+  };
+
+  return (
+    <div className="p-6 lg:p-10 w-full max-w-4xl">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+          <SlidersHorizontal className="text-neon-blue w-8 h-8" />
+          Settings
+        </h1>
+        <p className="text-slate-400">Match policy applied to every scan mode, and printed poster details.</p>
+      </header>
+
+      <section className="bg-slate-900 border border-slate-800 rounded-2xl p-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Confidence Thresholds</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Detections at or above the flag threshold are queued for review and mark the case SIGHTED.
+            Detections between the two thresholds are queued for review only. Anything lower is discarded but kept in the session log.
+          </p>
+        </div>
+
+        <ThresholdInputs value={draft.thresholds} onChange={thresholds => setDraft(prev => ({ ...prev, thresholds }))} />
+
+        <div className="space-y-3">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Per-Source Overrides</h4>
+          {SOURCES.map(source => {
+            const override = draft.overrides[source];
+            return (
+              <div key={source} className="border border-slate-800 rounded-lg p-3 space-y-3">
+                <label className="flex items-center justify-between text-xs text-slate-300">
+                  <span>{MATCH_SOURCE_LABELS[source]}</span>
+                  <span className="flex items-center gap-2 text-[10px] text-slate-500">
+                    {override ? 'Custom' : 'Uses defaults'}
+                    <input type="checkbox" checked={!!override} className="accent-sky-500"
+                      onChange={e => setOverride(source, e.target.checked ? { ...draft.thresholds } : undefined)} />
+                  </span>
+                </label>
+                {override && <ThresholdInputs value={override} onChange={thresholds => setOverride(source, thresholds)} />}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Live Feeds</h4>
+          <label className="block text-[10px] text-slate-400 space-y-1 w-64">
+            <span>Consecutive frames before reporting a hit</span>
+            <input type="number" min={1} max={10} value={draft.liveConsecutiveFrames}
+              onChange={e => setDraft(prev => ({ ...prev, liveConsecutiveFrames: Number(e.target.value) }))} className={inputClass} />
+          </label>
+        </div>
+
+        {problem && (
+          <p className="text-xs text-red-400 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" /> {problem}
+          </p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => setDraft(DEFAULT_MATCH_POLICY)}
+            className="border border-slate-700 text-slate-300 hover:bg-slate-800 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" /> Reset to Defaults
+          </button>
+          <button
+            onClick={() => onSaveMatchPolicy(draft)}
+            disabled={!!problem || !dirty}
+            className="flex-1 bg-neon-blue hover:bg-blue-500 text-white font-bold py-2 rounded-lg text-xs flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save Policy
+          </button>
+        </div>
+      </section>
+
+      <section className="bg-slate-900 border border-slate-800 rounded-2xl p-6 space-y-4 mt-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2"><Printer className="w-5 h-5 text-neon-blue" /> Posters &amp; Reports</h3>
+          <p className="text-xs text-slate-500 mt-1">Printed on every poster. The QR code opens the case in this app.</p>
+        </div>
+        <label className="block text-[10px] text-slate-400 space-y-1">
+          <span>Contact line</span>
+          <input type="text" value={posterDraft.contactLine} className={`${inputClass} font-sans`}
+            onChange={e => setPosterDraft(prev => ({ ...prev, contactLine: e.target.value }))} />
+        </label>
+        <label className="block text-[10px] text-slate-400 space-y-1">
+          <span>Case link address (leave empty to use this app's current address)</span>
+          <input type="url" placeholder={`${window.location.origin}${window.location.pathname}`} value={posterDraft.caseLinkBase} className={inputClass}
+            onChange={e => setPosterDraft(prev => ({ ...prev, caseLinkBase: e.target.value }))} />
+        </label>
+        <button
+          onClick={() => onSavePosterSettings({ contactLine: posterDraft.contactLine.trim(), caseLinkBase: posterDraft.caseLinkBase.trim() })}
+          disabled={!posterDirty || !posterDraft.contactLine.trim()}
+          className="w-full bg-neon-blue hover:bg-blue-500 text-white font-bold py-2 rounded-lg text-xs flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" /> Save Poster Settings
+        </button>
+      </section>
+    </div>
+  );
+};
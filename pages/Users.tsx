@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { UserCog, UserPlus, KeyRound, Ban, CheckCircle, AlertTriangle, X, Save } from 'lucide-react';
+import { UserAccount, UserRole } from '../types';
+import { MIN_PASSWORD_LENGTH, NewAccount, ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../services/auth';
+
+interface UsersProps {
+  users: UserAccount[];
+  currentUser: UserAccount;
+  // Each rejects with an AccountError whose message is shown inline
+  onCreateUser: (account: NewAccount) => Promise<void>;
+  onUpdateUser: (account: UserAccount) => Promise<void>;
+  onResetPassword: (userId: string, password: string) => Promise<void>;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-white focus:border-neon-blue outline-none";
+
+const EMPTY_ACCOUNT: NewAccount = { username: '', displayName: '', role: 'REPORTER', password: '' };
+
+export const Users: React.FC<UsersProps> = ({ users, currentUser, onCreateUser, onUpdateUser, onResetPassword }) => {
+  const [draft, setDraft] = useState<NewAccount | null>(null);
+  const [resetting, setResetting] = useState<{ userId: string; password: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs an account change, surfacing its error instead of throwing
+  const attempt = async (change: () => Promise<void>) => {
+    setError(null);
+    try {
+      await change();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft && await attempt(() => onCreateUser(draft))) setDraft(null);
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (resetting && await attempt(() => onResetPassword(resetting.userId, resetting.password))) setResetting(null);
+  };
+
+  const sorted = [...users].sort((a, b) => a.username.localeCompare(b.username));
+
+  return (
+    <div className="p-6 lg:p-10 w-full max-w-5xl">
+      <header className="flex justify-between items-end mb-8 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+            <UserCog className="text-neon-blue w-8 h-8" />
+            User Accounts
+          </h1>
+          <p className="text-slate-400">Who can sign in, and what each role may do.</p>
+        </div>
+        <button
+          onClick={() => { setDraft(EMPTY_ACCOUNT); setError(null); }}
+          className="border border-slate-700 text-slate-300 hover:bg-slate-800 px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2"
+        >
+          <UserPlus className="w-4 h-4" /> ADD USER
+        </button>
+      </header>
+
+      {error && (
+        <p className="text-xs text-red-400 flex items-center gap-2 mb-4">
+          <AlertTriangle className="w-4 h-4" /> {error}
+        </p>
+      )}
+
+      {draft && (
+        <form onSubmit={handleCreate} className="bg-slate-900 border border-slate-800 rounded-2xl p-6 mb-8 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-white">New Account</h3>
+            <button type="button" onClick={() => setDraft(null)} className="text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+          </div>
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Username</span>
+            <input required type="text" className={`${inputClass} font-mono`} value={draft.username}
+              onChange={e => setDraft({ ...draft, username: e.target.value })} />
+          </label>
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Display name</span>
+            <input required type="text" className={inputClass} value={draft.displayName}
+              onChange={e => setDraft({ ...draft, displayName: e.target.value })} />
+          </label>
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Role</span>
+            <select className={inputClass} value={draft.role} onChange={e => setDraft({ ...draft, role: e.target.value as UserRole })}>
+              {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            <span className="block text-[10px] text-slate-500">{ROLE_DESCRIPTIONS[draft.role]}</span>
+          </label>
+          <label className="text-xs text-slate-400 space-y-1">
+            <span>Initial password</span>
+            <input required type="password" autoComplete="new-password" minLength={MIN_PASSWORD_LENGTH} className={inputClass}
+              value={draft.password} onChange={e => setDraft({ ...draft, password: e.target.value })} />
+          </label>
+          <button type="submit" className="md:col-span-2 bg-neon-blue hover:bg-blue-500 text-white font-bold py-2 rounded-lg text-xs flex items-center justify-center gap-2">
+            <Save className="w-4 h-4" /> Create Account
+          </button>
+        </form>
+      )}
+
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl divide-y divide-slate-800">
+        {sorted.map(user => (
+          <div key={user.id} className={`p-4 space-y-3 ${user.disabled ? 'opacity-60' : ''}`}>
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex-1 min-w-[12rem]">
+                <p className="text-white font-medium">
+                  {user.displayName}
+                  {user.id === currentUser.id && <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full bg-neon-blue/20 text-neon-blue">YOU</span>}
+                  {user.disabled && <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full bg-red-500/10 text-red-400">DISABLED</span>}
+                </p>
+                <p className="text-xs font-mono text-slate-500">{user.username} · since {new Date(user.createdAt).toLocaleDateString()}</p>
+              </div>
+              <select
+                value={user.role}
+                title={ROLE_DESCRIPTIONS[user.role]}
+                onChange={e => attempt(() => onUpdateUser({ ...user, role: e.target.value as UserRole }))}
+                className={`${inputClass} w-40`}
+              >
+                {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+              </select>
+              <button
+                onClick={() => { setResetting({ userId: user.id, password: '' }); setError(null); }}
+                className="text-xs flex items-center gap-1 px-3 py-2 rounded border border-slate-700 text-slate-300 hover:bg-slate-800"
+              >
+                <KeyRound className="w-3 h-3" /> Reset Password
+              </button>
+              <button
+                onClick={() => attempt(() => onUpdateUser({ ...user, disabled: !user.disabled }))}
+                disabled={user.id === currentUser.id}
+                className={`text-xs flex items-center gap-1 px-3 py-2 rounded border disabled:opacity-40 ${user.disabled ? 'border-green-500/50 text-green-400 hover:bg-green-500/10' : 'border-red-500/50 text-red-400 hover:bg-red-500/10'}`}
+              >
+                {user.disabled ? <><CheckCircle className="w-3 h-3" /> Enable</> : <><Ban className="w-3 h-3" /> Disable</>}
+              </button>
+            </div>
+
+            {resetting?.userId === user.id && (
+              <form onSubmit={handleReset} className="flex items-center gap-2">
+                <input required autoFocus type="password" autoComplete="new-password" minLength={MIN_PASSWORD_LENGTH}
+                  placeholder={`New password (min ${MIN_PASSWORD_LENGTH} characters)`} className={`${inputClass} flex-1`}
+                  value={resetting.password} onChange={e => setResetting({ ...resetting, password: e.target.value })} />
+                <button type="submit" className="bg-neon-blue hover:bg-blue-500 text-white font-bold px-4 py-2 rounded text-xs">Set</button>
+                <button type="button" onClick={() => setResetting(null)} className="text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+              </form>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { RecognitionErrorKind, classifyError } from "../services/errors";
+import { MAX_PEOPLE_PER_REQUEST, ReferencePerson } from "../services/recognitionApi";
+import { RecognitionBackend } from "./backend";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+export interface ApiServerOptions {
+  rateLimiter?: RateLimiter;
+  // Use the first X-Forwarded-For address as the client ID (only behind a reverse proxy)
+  trustProxy?: boolean;
+  log?: (line: string) => void;
+}
+
+// Requests carry base64 images: a scene (or portrait) plus every reference photo of one group
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+// Status the client sees for each failure; the kind travels in the body so the client can rebuild the error
+const STATUS_BY_KIND: Record<RecognitionErrorKind, number> = {
+  AUTH: 502,
+  QUOTA: 429,
+  TIMEOUT: 504,
+  NETWORK: 502,
+  INVALID_RESPONSE: 502,
+  SAFETY_BLOCK: 422,
+  UNKNOWN: 500,
+};
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // Oversized bodies are drained rather than cut off so the 413 still reaches the client
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Request body over ${MAX_BODY_BYTES / 1024 / 1024} MB`));
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const requireImage = (value: unknown, field: string): string => {
+  if (!isNonEmptyString(value)) throw new HttpError(400, `"${field}" must be a base64 image`);
+  return value;
+};
+
+const parseReferences = (value: unknown): ReferencePerson[] => {
+  if (!Array.isArray(value) || value.length === 0) throw new HttpError(400, `"people" must be a non-empty list`);
+  if (value.length > MAX_PEOPLE_PER_REQUEST) throw new HttpError(400, `At most ${MAX_PEOPLE_PER_REQUEST} people per request`);
+  return value.map((entry, i) => {
+    if (!entry || typeof entry !== 'object' || !isNonEmptyString(entry.id) || !isNonEmptyString(entry.name)) {
+      throw new HttpError(400, `people[${i}] needs an id and a name`);
+    }
+    const images = entry.images ?? [];
+    if (!Array.isArray(images) || !images.every(isNonEmptyString)) throw new HttpError(400, `people[${i}].images must be a list of images`);
+    return {
+      id: entry.id,
+      name: entry.name,
+      lastSeenClothing: typeof entry.lastSeenClothing === 'string' ? entry.lastSeenClothing : '',
+      description: typeof entry.description === 'string' ? entry.description : '',
+      imageUrl: requireImage(entry.imageUrl, `people[${i}].imageUrl`),
+      images,
+    };
+  });
+};
+
+type Route = (body: any, backend: RecognitionBackend) => Promise<unknown>;
+
+const ROUTES: Record<string, Route> = {
+  '/api/analyze-person': async (body, backend) => ({
+    description: await backend.analyzePerson(requireImage(body?.image, 'image')),
+  }),
+  '/api/scan-crowd': (body, backend) =>
+    backend.scanCrowd(parseReferences(body?.people), requireImage(body?.scene, 'scene')),
+  '/api/identify-face': (body, backend) =>
+    backend.identifyFace(parseReferences(body?.people), requireImage(body?.portrait, 'portrait')),
+};
+
+const clientIdOf = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * HTTP API in front of a recognition backend. The browser never sees the
+ * provider key; it posts images here instead. Every request is rate limited
+ * per client and logged as one line (never with image data).
+ *
+ * There is no authentication: user accounts and roles exist only in the
+ * browser (services/auth.ts), so any client that can reach this server can
+ * call it. Restrict access at the network or reverse proxy.
+ */
+export const createApiServer = (backend: RecognitionBackend, options: ApiServerOptions = {}): Server => {
+  const rateLimiter = options.rateLimiter ?? createRateLimiter();
+  const log = options.log ?? console.log;
+
+  return createServer(async (req, res) => {
+    const started = Date.now();
+    const clientId = clientIdOf(req, options.trustProxy ?? false);
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    let note = '';
+
+    res.on('finish', () => {
+      log(`${new Date(started).toISOString()} ${clientId} ${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms${note ? ` ${note}` : ''}`);
+    });
+
+    try {
+      if (req.method === 'GET' && path === '/api/health') {
+        sendJson(res, 200, { status: 'ok', backend: backend.id });
+        return;
+      }
+
+      const route = ROUTES[path];
+      if (!route) throw new HttpError(404, `No endpoint at ${path}`);
+      if (req.method !== 'POST') throw new HttpError(405, `${path} only accepts POST`);
+
+      const decision = rateLimiter.check(clientId);
+      if (!decision.allowed) {
+        const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+        note = 'rate-limited';
+        sendJson(res, 429, { error: { kind: 'QUOTA', message: `Too many requests. Retry in ${retryAfter}s.` } }, { 'Retry-After': String(retryAfter) });
+        return;
+      }
+
+      const body = await readJson(req);
+      sendJson(res, 200, await route(body, backend), { 'X-RateLimit-Remaining': String(decision.remaining) });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        note = error.message;
+        sendJson(res, error.status, { error: { message: error.message } });
+        return;
+      }
+      const recognitionError = classifyError(error);
+      note = recognitionError.kind;
+      sendJson(res, STATUS_BY_KIND[recognitionError.kind], { error: { kind: recognitionError.kind, message: recognitionError.message } });
+    }
+  });
+};
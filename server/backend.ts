@@ -0,0 +1,12 @@
+import { CrowdScanResponse, IdentifyResponse, ReferencePerson } from "../services/recognitionApi";
+
+/**
+ * What the API server calls to answer a request. The Gemini backend holds the
+ * API key; the stub answers from fixtures so the server runs without one.
+ */
+export interface RecognitionBackend {
+  id: string;
+  analyzePerson(image: string): Promise<string>;
+  scanCrowd(people: ReferencePerson[], scene: string): Promise<CrowdScanResponse>;
+  identifyFace(people: ReferencePerson[], portrait: string): Promise<IdentifyResponse>;
+}
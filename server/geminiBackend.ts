@@ -0,0 +1,284 @@
+import { ApiError, GoogleGenAI, Type, GenerateContentResponse, FinishReason } from "@google/genai";
+import { ResponseValidationError, parseJsonResponse } from "../services/validation";
+import { RecognitionError, classifyError, kindForStatus } from "../services/errors";
+import { ReferencePerson, CrowdScanResponse, IdentifyResponse } from "../services/recognitionApi";
+import { RecognitionBackend } from "./backend";
+
+const MODEL_NAME = 'gemini-2.5-flash';
+
+// Helper to clean base64 string
+const cleanBase64 = (b64: string) => b64.replace(/^data:image\/\w+;base64,/, "");
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII,
+];
+
+// Returns the response text, or throws if the prompt/answer was blocked or empty.
+const extractText = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new RecognitionError('SAFETY_BLOCK', response.promptFeedback?.blockReasonMessage || `Request blocked (${blockReason})`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new RecognitionError('SAFETY_BLOCK', `Response blocked (${finishReason})`);
+  }
+
+  const text = response.text;
+  if (!text) throw new ResponseValidationError("Empty response from AI");
+  return text;
+};
+
+// The SDK's ApiError carries the HTTP status Gemini answered with
+const classifyGeminiError = (error: unknown): RecognitionError => {
+  if (error instanceof ApiError) {
+    if (error.status === 400 && /api key/i.test(error.message)) return new RecognitionError('AUTH', error.message, error);
+    const kind = kindForStatus(error.status);
+    if (kind) return new RecognitionError(kind, error.message, error);
+  }
+  return classifyError(error);
+};
+
+export const createGeminiBackend = (apiKey: string): RecognitionBackend => {
+  const client = new GoogleGenAI({ apiKey });
+
+  /**
+   * Generates a description of a person based on their image.
+   * IMPORTANT: Specifically ignores clothing to prevent bias from old photos.
+   */
+  const analyzePerson = async (base64Image: string): Promise<string> => {
+    try {
+      const response = await client.models.generateContent({
+        model: MODEL_NAME,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: 'image/jpeg',
+                data: cleanBase64(base64Image)
+              }
+            },
+            {
+              text: "Analyze the physical biometric features of this person for a missing person report. Describe ONLY: Hair color/style, eye color, facial structure, distinct facial marks, and physical build. DO NOT describe their clothing, as the photo may be old. Keep it under 40 words."
+            }
+          ]
+        }
+      });
+      return extractText(response).trim();
+    } catch (error) {
+      console.error("Gemini Analysis Error:", error);
+      throw classifyGeminiError(error);
+    }
+  };
+
+  /**
+   * Scans a crowd scene against ONE bounded group of reference persons in a single request.
+   */
+  const scanCrowd = async (
+    missingPeople: ReferencePerson[],
+    crowdSceneBase64: string
+  ): Promise<CrowdScanResponse> => {
+    try {
+      // 1. Construct the Prompt Parts
+      // We start with the Crowd Scene
+      const promptParts: any[] = [
+          { text: "CRITICAL TASK: Analyze this Crowd Scene (Image 1) and check if ANY of the Reference Persons (Images below) are present." },
+          {
+              inlineData: {
+                  mimeType: 'image/jpeg',
+                  data: cleanBase64(crowdSceneBase64)
+              }
+          },
+          { text: "--- REFERENCE DATABASE BELOW ---" }
+      ];
+
+      // 2. Add each Missing Person as a Reference
+      missingPeople.forEach((person, index) => {
+          promptParts.push({
+              text: `REFERENCE PERSON #${index + 1} (ID: ${person.id}):
+              - Name: ${person.name}
+              - Reported Clothing: "${person.lastSeenClothing}"
+              - Biometrics: "${person.description}"
+              - Reference Photo:`
+          });
+          promptParts.push({
+              inlineData: {
+                  mimeType: 'image/jpeg',
+                  data: cleanBase64(person.imageUrl)
+              }
+          });
+          // Extra gallery photos of the same person (different angles, ages)
+          person.images.forEach(image => {
+              promptParts.push({ text: `Additional Reference Photo (ID: ${person.id}):` });
+              promptParts.push({
+                  inlineData: {
+                      mimeType: 'image/jpeg',
+                      data: cleanBase64(image)
+                  }
+              });
+          });
+      });
+
+      // 3. Add Final Instruction
+      promptParts.push({
+          text: `INSTRUCTIONS:
+          1. Compare faces in the Crowd Scene against ALL Reference Photos.
+          2. Also check if the person matches the "Reported Clothing" description provided for that ID.
+          3. Report EVERY reference person you find in the scene - several may be present at once. Each ID at most once.
+
+          Output JSON Schema:
+          - "matches": array (empty if nobody was found), each with:
+              - "personId": string (The ID of the matched person)
+              - "confidence": number (0-100)
+              - "explanation": string (Why this person matches)
+              - "box_2d": number[] (Bounding box [ymin, xmin, ymax, xmax] 0-1000 scale of the person in the Crowd Scene)
+          - "summary": string (Short overall description of the scene analysis)
+          `
+      });
+
+      const response = await client.models.generateContent({
+        model: MODEL_NAME,
+        contents: { parts: promptParts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                  matches: {
+                      type: Type.ARRAY,
+                      items: {
+                          type: Type.OBJECT,
+                          properties: {
+                              personId: { type: Type.STRING },
+                              confidence: { type: Type.NUMBER },
+                              explanation: { type: Type.STRING },
+                              box_2d: {
+                                type: Type.ARRAY,
+                                items: { type: Type.NUMBER },
+                                description: "Bounding box [ymin, xmin, ymax, xmax] on 0-1000 scale",
+                                nullable: true
+                              }
+                          },
+                          required: ["personId", "confidence", "explanation"]
+                      }
+                  },
+                  summary: { type: Type.STRING }
+              },
+              required: ["matches", "summary"]
+          }
+        }
+      });
+
+      const resultText = extractText(response);
+      const result: any = parseJsonResponse(resultText);
+      if (!result || !Array.isArray(result.matches)) {
+          throw new ResponseValidationError("AI response has no matches list", result);
+      }
+
+      // Rename to the app's field names only - the client's validateScanResult checks the content
+      return {
+          detections: result.matches.map((match: any) => ({ ...match, boundingBox: match?.box_2d ?? undefined })),
+          summary: result.summary,
+      };
+
+    } catch (error) {
+      console.error("Gemini Batch Scan Error:", error);
+      throw classifyGeminiError(error);
+    }
+  };
+
+  /**
+   * Ranks ONE bounded group of reference persons by facial similarity to the
+   * portrait of an unidentified person. Clothing is left out: someone found
+   * days later is rarely wearing what was reported.
+   */
+  const identifyFace = async (
+    people: ReferencePerson[],
+    portraitBase64: string
+  ): Promise<IdentifyResponse> => {
+    try {
+      const promptParts: any[] = [
+          { text: "CRITICAL TASK: Image 1 is a portrait of an UNIDENTIFIED person found by a shelter or hospital. Compare their face against each Reference Person below and rate how likely each one is the same person." },
+          {
+              inlineData: {
+                  mimeType: 'image/jpeg',
+                  data: cleanBase64(portraitBase64)
+              }
+          },
+          { text: "--- REFERENCE DATABASE BELOW ---" }
+      ];
+
+      people.forEach((person, index) => {
+          promptParts.push({
+              text: `REFERENCE PERSON #${index + 1} (ID: ${person.id}):
+              - Name: ${person.name}
+              - Biometrics: "${person.description}"
+              - Reference Photos:`
+          });
+          [person.imageUrl, ...person.images].forEach(image => {
+              promptParts.push({
+                  inlineData: {
+                      mimeType: 'image/jpeg',
+                      data: cleanBase64(image)
+                  }
+              });
+          });
+      });
+
+      promptParts.push({
+          text: `INSTRUCTIONS:
+          1. Compare ONLY facial and physical features (face shape, eyes, nose, hairline, marks, build). Ignore clothing and background.
+          2. Allow for weight change, injuries, grooming and photos taken years apart.
+          3. Score EVERY reference person exactly once, including poor matches.
+
+          Output JSON Schema:
+          - "candidates": array, each with:
+              - "personId": string (The ID of the reference person)
+              - "similarity": number (0-100, how likely this is the same person)
+              - "explanation": string (Which features match or differ)
+          - "summary": string (Short overall assessment)
+          `
+      });
+
+      const response = await client.models.generateContent({
+        model: MODEL_NAME,
+        contents: { parts: promptParts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                  candidates: {
+                      type: Type.ARRAY,
+                      items: {
+                          type: Type.OBJECT,
+                          properties: {
+                              personId: { type: Type.STRING },
+                              similarity: { type: Type.NUMBER },
+                              explanation: { type: Type.STRING }
+                          },
+                          required: ["personId", "similarity", "explanation"]
+                      }
+                  },
+                  summary: { type: Type.STRING }
+              },
+              required: ["candidates", "summary"]
+          }
+        }
+      });
+
+      const result: any = parseJsonResponse(extractText(response));
+      if (!result || !Array.isArray(result.candidates)) {
+          throw new ResponseValidationError("AI response has no candidates list", result);
+      }
+      // The client's validateIdentifyResult checks the content
+      return { candidates: result.candidates, summary: result.summary };
+
+    } catch (error) {
+      console.error("Gemini Identify Error:", error);
+      throw classifyGeminiError(error);
+    }
+  };
+
+  return { id: 'gemini', analyzePerson, scanCrowd, identifyFace };
+};
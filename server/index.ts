@@ -0,0 +1,45 @@
+import { createApiServer } from "./api";
+import { createGeminiBackend } from "./geminiBackend";
+import { stubBackend } from "./stubBackend";
+import { RecognitionBackend } from "./backend";
+import { DEFAULT_RATE_LIMIT, createRateLimiter } from "./rateLimit";
+
+// Same file the Vite dev server reads, so one .env.local configures both
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file - rely on the real environment
+}
+
+const env = process.env;
+
+/**
+ * RECOGNITION_BACKEND picks 'gemini' or 'stub'. Without an explicit choice,
+ * Gemini is used when GEMINI_API_KEY is set and the stub otherwise.
+ */
+const resolveBackend = (): RecognitionBackend => {
+  const configured = env.RECOGNITION_BACKEND ?? (env.GEMINI_API_KEY ? 'gemini' : 'stub');
+  if (configured === 'stub') return stubBackend;
+  if (configured !== 'gemini') throw new Error(`Unknown RECOGNITION_BACKEND "${configured}" (expected 'gemini' or 'stub').`);
+  if (!env.GEMINI_API_KEY) throw new Error("RECOGNITION_BACKEND=gemini needs GEMINI_API_KEY.");
+  return createGeminiBackend(env.GEMINI_API_KEY);
+};
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const backend = resolveBackend();
+const port = positiveInt(env.RECOGNITION_SERVER_PORT, 8787);
+const rateLimit = {
+  limit: positiveInt(env.RATE_LIMIT_PER_MINUTE, DEFAULT_RATE_LIMIT.limit),
+  windowMs: DEFAULT_RATE_LIMIT.windowMs,
+};
+
+createApiServer(backend, {
+  rateLimiter: createRateLimiter(rateLimit),
+  trustProxy: env.TRUST_PROXY === 'true',
+}).listen(port, () => {
+  console.log(`Recognition API (${backend.id}) on http://localhost:${port} - ${rateLimit.limit} requests/min per client`);
+});
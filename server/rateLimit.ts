@@ -0,0 +1,52 @@
+export interface RateLimitOptions {
+  limit: number;    // Requests per client per window
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // Until the client's window resets; 0 when allowed
+}
+
+export interface RateLimiter {
+  check(clientId: string, now?: number): RateLimitDecision;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  limit: 120,
+  windowMs: 60_000,
+};
+
+/**
+ * Fixed-window limiter keyed by client. Windows start at a client's first
+ * request; expired windows are dropped as they're encountered so the map
+ * doesn't grow with every address ever seen.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions = DEFAULT_RATE_LIMIT): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (now - window.start >= windowMs) windows.delete(key);
+    });
+  };
+
+  return {
+    check(clientId, now = Date.now()) {
+      if (windows.size > 1000) sweep(now);
+
+      let window = windows.get(clientId);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(clientId, window);
+      }
+
+      if (window.count >= limit) {
+        return { allowed: false, remaining: 0, retryAfterMs: window.start + windowMs - now };
+      }
+      window.count++;
+      return { allowed: true, remaining: limit - window.count, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,23 @@
+import { mockDescription, mockIdentify, mockScan } from "../services/mockRecognitionProvider";
+import { RecognitionBackend } from "./backend";
+
+/**
+ * Local backend for offline development: no key, no network, no delay.
+ * Answers with the in-browser mock provider's fixtures, so the same images
+ * get the same answers either way.
+ */
+export const stubBackend: RecognitionBackend = {
+  id: 'stub',
+
+  async analyzePerson(image) {
+    return mockDescription(image);
+  },
+
+  async scanCrowd(people, scene) {
+    return mockScan(people, scene, 'Stub');
+  },
+
+  async identifyFace(people, portrait) {
+    return mockIdentify(people, portrait, 'Stub');
+  },
+};
@@ -0,0 +1,54 @@
+import { SessionLogEntry, SessionLogKind } from "../types";
+import { STORES, isIndexedDbAvailable, withStore } from "./db";
+
+/**
+ * Append-only audit trail of scan sessions: every frame, AI result and
+ * operator action, kept so past sessions can be reviewed and replayed.
+ */
+export interface AuditLog {
+  append(entry: SessionLogEntry): Promise<void>;
+  // Entries of one session, oldest first
+  forSession(sessionId: string): Promise<SessionLogEntry[]>;
+}
+
+export const createLogEntry = (
+  sessionId: string,
+  kind: SessionLogKind,
+  message: string,
+  extra: Pick<SessionLogEntry, 'frameLabel' | 'detections' | 'candidateId'> = {}
+): SessionLogEntry => ({
+  id: crypto.randomUUID(),
+  sessionId,
+  timestamp: new Date().toISOString(),
+  kind,
+  message,
+  ...extra,
+});
+
+const byTime = (entries: SessionLogEntry[]) =>
+  entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+export const createIndexedDbAuditLog = (): AuditLog => ({
+  async append(entry) {
+    await withStore(STORES.SESSION_LOG, 'readwrite', store => store.add(entry));
+  },
+  async forSession(sessionId) {
+    const entries = await withStore<SessionLogEntry[]>(STORES.SESSION_LOG, 'readonly',
+      store => store.index('sessionId').getAll(sessionId));
+    return byTime(entries);
+  },
+});
+
+export const createInMemoryAuditLog = (): AuditLog => {
+  const entries: SessionLogEntry[] = [];
+
+  return {
+    async append(entry) { entries.push(entry); },
+    async forSession(sessionId) {
+      return byTime(entries.filter(e => e.sessionId === sessionId));
+    },
+  };
+};
+
+export const createAuditLog = (): AuditLog =>
+  isIndexedDbAvailable() ? createIndexedDbAuditLog() : createInMemoryAuditLog();
@@ -0,0 +1,183 @@
+import { ActorStamp, AppView, UserAccount, UserRole } from "../types";
+
+// Accounts, sign-in and role permissions. Everything lives in this browser's
+// database, so these checks keep honest users in their lane; they are not a
+// security boundary against someone with access to the device's storage.
+// The recognition API server (server/api.ts) does not see accounts or roles
+// at all: authorization is enforced in the UI only.
+
+export type Permission =
+  | 'CREATE_CASE'     // File new reports
+  | 'EDIT_CASE'       // Change case details and status
+  | 'IMPORT_CASES'
+  | 'RUN_SCAN'        // Image/video/stream scans, the camera grid and identify lookups
+  | 'REVIEW_MATCH'    // Confirm or reject AI hits
+  | 'MANAGE_CAMERAS'
+  | 'MANAGE_SETTINGS'
+  | 'MANAGE_USERS';
+
+export const ROLES: UserRole[] = ['REPORTER', 'OPERATOR', 'INVESTIGATOR', 'ADMIN'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  REPORTER: 'Reporter',
+  OPERATOR: 'Operator',
+  INVESTIGATOR: 'Investigator',
+  ADMIN: 'Administrator',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  REPORTER: 'Files reports and browses cases.',
+  OPERATOR: 'Also runs scans and camera feeds.',
+  INVESTIGATOR: 'Also edits cases, imports records and reviews matches.',
+  ADMIN: 'Everything, including cameras, settings and user accounts.',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  REPORTER: ['CREATE_CASE'],
+  OPERATOR: ['CREATE_CASE', 'RUN_SCAN'],
+  INVESTIGATOR: ['CREATE_CASE', 'EDIT_CASE', 'IMPORT_CASES', 'RUN_SCAN', 'REVIEW_MATCH'],
+  ADMIN: ['CREATE_CASE', 'EDIT_CASE', 'IMPORT_CASES', 'RUN_SCAN', 'REVIEW_MATCH', 'MANAGE_CAMERAS', 'MANAGE_SETTINGS', 'MANAGE_USERS'],
+};
+
+export const can = (user: UserAccount | null, permission: Permission): boolean =>
+  !!user && !user.disabled && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// Views that need more than a signed-in user; anything not listed is open to every role
+export const VIEW_PERMISSIONS: Partial<Record<AppView, Permission>> = {
+  [AppView.REPORT]: 'CREATE_CASE',
+  [AppView.SCAN]: 'RUN_SCAN',
+  [AppView.CAMERAS]: 'RUN_SCAN',
+  [AppView.IDENTIFY]: 'RUN_SCAN',
+  [AppView.REVIEW]: 'REVIEW_MATCH',
+  [AppView.SETTINGS]: 'MANAGE_SETTINGS',
+  [AppView.USERS]: 'MANAGE_USERS',
+};
+
+export const canView = (user: UserAccount | null, view: AppView): boolean => {
+  const permission = VIEW_PERMISSIONS[view];
+  return !!user && (!permission || can(user, permission));
+};
+
+export const actorOf = (user: UserAccount): ActorStamp => ({ userId: user.id, name: user.displayName });
+
+/**
+ * Raised for sign-in failures and invalid account changes. The message is
+ * safe to show as-is.
+ */
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+const PBKDF2_ITERATIONS = 210_000;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) || [], byte => parseInt(byte, 16));
+
+const derive = async (password: string, salt: Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+const hashPassword = async (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) throw new AccountError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { passwordHash: await derive(password, salt), passwordSalt: toHex(salt) };
+};
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export interface NewAccount {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  password: string;
+}
+
+export const createAccount = async (input: NewAccount, existing: UserAccount[]): Promise<UserAccount> => {
+  const username = normalizeUsername(input.username);
+  if (!/^[a-z0-9._-]{3,32}$/.test(username)) {
+    throw new AccountError("Usernames are 3-32 letters, digits, '.', '_' or '-'.");
+  }
+  if (existing.some(u => u.username === username)) throw new AccountError(`Username "${username}" is taken.`);
+  if (!input.displayName.trim()) throw new AccountError("Display name is required.");
+
+  return {
+    id: crypto.randomUUID(),
+    username,
+    displayName: input.displayName.trim(),
+    role: input.role,
+    ...await hashPassword(input.password),
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const setPassword = async (account: UserAccount, password: string): Promise<UserAccount> =>
+  ({ ...account, ...await hashPassword(password) });
+
+// Same message for an unknown user and a wrong password
+export const authenticate = async (accounts: UserAccount[], username: string, password: string): Promise<UserAccount> => {
+  const account = accounts.find(u => u.username === normalizeUsername(username));
+  if (!account || await derive(password, fromHex(account.passwordSalt)) !== account.passwordHash) {
+    throw new AccountError("Invalid username or password.");
+  }
+  if (account.disabled) throw new AccountError("This account has been disabled.");
+  return account;
+};
+
+/**
+ * Rejects changes that would leave nobody able to manage accounts.
+ */
+export const assertAdminRemains = (accounts: UserAccount[], changed: UserAccount) => {
+  const admins = accounts
+    .map(u => (u.id === changed.id ? changed : u))
+    .filter(u => u.role === 'ADMIN' && !u.disabled);
+  if (admins.length === 0) throw new AccountError("At least one active administrator is required.");
+};
+
+// The signed-in user is remembered for the browser tab only. The tab keeps a
+// random token issued at sign-in alongside the user id, so editing the stored
+// id alone does not sign anyone in.
+const SESSION_KEY = 'sentinel.session';
+
+interface StoredSession {
+  userId: string;
+  token: string;
+}
+
+export const startSession = (account: UserAccount): UserAccount =>
+  ({ ...account, sessionToken: toHex(crypto.getRandomValues(new Uint8Array(32))) });
+
+export const endSession = (account: UserAccount): UserAccount => {
+  const { sessionToken: _, ...rest } = account;
+  return rest;
+};
+
+// Role, password and enablement changes revoke any session the account has open
+export const invalidatesSession = (before: UserAccount, after: UserAccount) =>
+  before.role !== after.role || before.passwordHash !== after.passwordHash || !!before.disabled !== !!after.disabled;
+
+export const saveSession = (account: UserAccount | null) => {
+  if (account?.sessionToken) {
+    const session: StoredSession = { userId: account.id, token: account.sessionToken };
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+};
+
+export const restoreSession = (accounts: UserAccount[]): UserAccount | undefined => {
+  let session: Partial<StoredSession> | null;
+  try {
+    session = JSON.parse(sessionStorage.getItem(SESSION_KEY) || 'null');
+  } catch {
+    return undefined;
+  }
+  const account = accounts.find(u => u.id === session?.userId);
+  if (!account?.sessionToken || account.sessionToken !== session?.token || account.disabled) return undefined;
+  return account;
+};
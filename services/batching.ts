@@ -0,0 +1,82 @@
+// Helpers for splitting large AI workloads into bounded requests.
+
+// Sizes and limits come from settings inputs; NaN or Infinity (a cleared or garbled field) counts as 1
+const wholeAtLeastOne = (value: number) => Number.isFinite(value) ? Math.max(1, Math.floor(value)) : 1;
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const step = wholeAtLeastOne(size);
+  const groups: T[][] = [];
+  for (let i = 0; i < items.length; i += step) {
+    groups.push(items.slice(i, i + step));
+  }
+  return groups;
+};
+
+/**
+ * Shared cap on in-flight requests. Unlike mapWithConcurrency, which bounds
+ * one batch, a budget is shared by independent callers (e.g. several feeds).
+ */
+export interface RequestBudget {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  readonly active: number;
+  readonly queued: number;
+}
+
+export const createRequestBudget = (limit: number): RequestBudget => {
+  const max = wholeAtLeastOne(limit);
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  const acquire = () => new Promise<void>(resolve => {
+    if (active < max) {
+      active++;
+      resolve();
+    } else {
+      // The slot is handed over directly on release, so `active` is unchanged
+      waiting.push(resolve);
+    }
+  });
+
+  const release = () => {
+    const nextInLine = waiting.shift();
+    if (nextInLine) nextInLine();
+    else active--;
+  };
+
+  return {
+    async run(task) {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    get active() { return active; },
+    get queued() { return waiting.length; },
+  };
+};
+
+/**
+ * Like Promise.all over items.map(worker), but with at most `concurrency`
+ * workers in flight. Results keep the input order.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const lanes = Math.min(wholeAtLeastOne(concurrency), Math.max(1, items.length));
+  await Promise.all(Array.from({ length: lanes }, run));
+  return results;
+};
@@ -0,0 +1,33 @@
+import { CameraSource } from "../types";
+
+export const DEFAULT_SCAN_INTERVAL_SEC = 5;
+
+// Concurrent recognition requests shared by every feed in the camera grid
+export const DEFAULT_REQUEST_BUDGET = 4;
+
+export const createCamera = (fields: Omit<CameraSource, 'id' | 'createdAt'>): CameraSource => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Video inputs available to the browser. Device labels are only exposed once
+ * camera permission has been granted, so ask for it first when requested.
+ */
+export const listVideoDevices = async (requestPermission = false): Promise<MediaDeviceInfo[]> => {
+  if (requestPermission) {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+    stream.getTracks().forEach(track => track.stop());
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+// getUserMedia constraints for a device camera, falling back to the default device
+export const deviceConstraints = (camera?: Pick<CameraSource, 'deviceId'>): MediaStreamConstraints => ({
+  video: camera?.deviceId ? { deviceId: { exact: camera.deviceId } } : true,
+});
+
+export const describeCameraSource = (camera: CameraSource) =>
+  camera.kind === 'device' ? 'Local device' : camera.streamUrl || 'Stream URL';
@@ -0,0 +1,318 @@
+import { MatchCandidate, Person } from "../types";
+import { PdfDocument, PdfFont, PdfImage, PdfPage, createPdfDocument, textWidth, wrapText } from "./pdf";
+import { encodeQr } from "./qrCode";
+import { sortTimeline } from "./caseTimeline";
+import { formatPoint } from "./geo";
+import { padBox } from "./frames";
+
+export interface PosterSettings {
+  contactLine: string; // Printed at the foot of every poster
+  caseLinkBase: string; // Address the QR code points at; empty = this app's current address
+}
+
+export const DEFAULT_POSTER_SETTINGS: PosterSettings = {
+  contactLine: 'If you have seen this person, please contact your local police.',
+  caseLinkBase: '',
+};
+
+// Deep link that App.tsx resolves to the case detail page
+export const caseUrl = (person: Person, settings: PosterSettings) => {
+  const base = settings.caseLinkBase.trim() || `${window.location.origin}${window.location.pathname}`;
+  return `${base.replace(/#.*$/, '')}#case/${person.id}`;
+};
+
+const MARGIN = 40;
+const RED = '#c81e1e';
+const DARK = '#111827';
+const MUTED = '#4b5563';
+const RULE = '#d1d5db';
+
+/**
+ * Re-encodes any image the browser can display as a JPEG the PDF writer can
+ * embed, optionally cropped to a [ymin, xmin, ymax, xmax] box (0-1000).
+ * Resolves null when the image can't be read, e.g. a remote URL without CORS.
+ */
+export const loadPdfImage = (src: string, crop?: [number, number, number, number], maxSize = 1200): Promise<PdfImage | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onerror = () => resolve(null);
+    img.onload = () => {
+      try {
+        const [ymin, xmin, ymax, xmax] = crop || [0, 0, 1000, 1000];
+        const sx = (xmin / 1000) * img.naturalWidth;
+        const sy = (ymin / 1000) * img.naturalHeight;
+        const sw = ((xmax - xmin) / 1000) * img.naturalWidth;
+        const sh = ((ymax - ymin) / 1000) * img.naturalHeight;
+        const scale = Math.min(1, maxSize / Math.max(sw, sh));
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(sw * scale));
+        canvas.height = Math.max(1, Math.round(sh * scale));
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = '#ffffff'; // Transparent PNG areas would otherwise turn black
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+        const base64 = canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+        const binary = atob(base64);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        resolve({ bytes, width: canvas.width, height: canvas.height });
+      } catch {
+        resolve(null); // Tainted canvas
+      }
+    };
+    img.src = src;
+  });
+
+// Largest size with the image's aspect ratio that fits the box
+const fit = (image: PdfImage, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+};
+
+const drawCentered = (page: PdfPage, text: string, y: number, size: number, font: PdfFont, color: string) =>
+  page.text(text, (page.width - textWidth(text, size, font)) / 2, y, { size, font, color });
+
+// Draws wrapped text starting at baseline `y`; returns the baseline after the last line
+const drawParagraph = (page: PdfPage, text: string, x: number, y: number, width: number, size: number, color = DARK, font: PdfFont = 'regular') => {
+  const lineHeight = size * 1.35;
+  const lines = wrapText(text, width, size, font);
+  lines.forEach((line, i) => page.text(line, x, y + i * lineHeight, { size, font, color }));
+  return y + lines.length * lineHeight;
+};
+
+const drawQr = (page: PdfPage, text: string, x: number, y: number, size: number) => {
+  const modules = encodeQr(text);
+  const quiet = 4;
+  const cell = size / (modules.length + quiet * 2);
+  page.rect(x, y, size, size, { fill: '#ffffff' });
+  modules.forEach((row, r) => row.forEach((dark, c) => {
+    if (dark) page.rect(x + (c + quiet) * cell, y + (r + quiet) * cell, cell, cell, { fill: '#000000' });
+  }));
+};
+
+const drawPhotoPlaceholder = (page: PdfPage, x: number, y: number, width: number, height: number) => {
+  page.rect(x, y, width, height, { fill: '#f3f4f6', stroke: RULE });
+  const label = 'Photo unavailable';
+  page.text(label, x + (width - textWidth(label, 12, 'regular')) / 2, y + height / 2, { size: 12, font: 'regular', color: MUTED });
+};
+
+/**
+ * Single-page A4 flyer: banner, photo, identifying details, contact line and
+ * a QR code linking back to the case.
+ */
+export const createPosterPdf = async (person: Person, settings: PosterSettings): Promise<Blob> => {
+  const doc = createPdfDocument();
+  const page = doc.addPage();
+  const contentWidth = page.width - MARGIN * 2;
+
+  page.rect(0, 0, page.width, 96, { fill: RED });
+  drawCentered(page, 'MISSING', 70, 56, 'bold', '#ffffff');
+
+  let y = 140;
+  const name = person.name.toUpperCase();
+  const nameSize = textWidth(name, 32, 'bold') > contentWidth ? 24 : 32;
+  wrapText(name, contentWidth, nameSize, 'bold').forEach(line => {
+    drawCentered(page, line, y, nameSize, 'bold', DARK);
+    y += nameSize * 1.2;
+  });
+
+  const photo = await loadPdfImage(person.imageUrl);
+  const photoBox = { width: 300, height: 300 };
+  if (photo) {
+    const { width, height } = fit(photo, photoBox.width, photoBox.height);
+    page.image(photo, (page.width - width) / 2, y, width, height);
+    y += height + 28;
+  } else {
+    drawPhotoPlaceholder(page, (page.width - photoBox.width) / 2, y, photoBox.width, photoBox.height);
+    y += photoBox.height + 28;
+  }
+
+  const details: [string, string][] = [
+    ['Age', person.age || 'Unknown'],
+    ['Last seen', person.lastSeenLocation],
+    ['Date', person.lastSeenDate],
+    ['Wearing', person.lastSeenClothing || 'Unknown'],
+  ];
+  details.forEach(([label, value]) => {
+    page.text(`${label}:`, MARGIN, y, { size: 13, font: 'bold', color: DARK });
+    y = drawParagraph(page, value, MARGIN + 80, y, contentWidth - 80, 13) + 4;
+  });
+
+  // Contact strip and QR share the bottom of the page
+  const qrSize = 110;
+  const footerTop = page.height - MARGIN - qrSize;
+
+  if (person.description) {
+    y += 6;
+    page.text('Description:', MARGIN, y, { size: 13, font: 'bold', color: DARK });
+    // Cut long descriptions short rather than run into the footer
+    const lineHeight = 11 * 1.35;
+    const room = Math.max(0, Math.floor((footerTop - 30 - (y + 18)) / lineHeight) + 1);
+    const lines = wrapText(person.description, contentWidth, 11);
+    const shown = lines.length > room ? [...lines.slice(0, room - 1), `${lines[room - 1] || ''}…`] : lines;
+    shown.slice(0, room).forEach((line, i) => page.text(line, MARGIN, y + 18 + i * lineHeight, { size: 11, color: MUTED }));
+  }
+
+  page.line(MARGIN, footerTop - 14, page.width - MARGIN, footerTop - 14, { color: RULE });
+  drawParagraph(page, settings.contactLine, MARGIN, footerTop + 20, contentWidth - qrSize - 20, 16, RED, 'bold');
+  page.text(`Case reference: ${person.id}`, MARGIN, page.height - MARGIN, { size: 8, color: MUTED });
+  drawQr(page, caseUrl(person, settings), page.width - MARGIN - qrSize, footerTop, qrSize);
+
+  return doc.toBlob();
+};
+
+// Running layout state for flowing content over as many pages as needed
+const createFlow = (doc: PdfDocument) => {
+  let page = doc.addPage();
+  let y = MARGIN;
+  const bottom = page.height - MARGIN - 20; // Room for the footer
+
+  return {
+    get page() { return page; },
+    get y() { return y; },
+    set y(value: number) { y = value; },
+    // Starts a new page unless `height` more points fit on this one
+    reserve(height: number) {
+      if (y + height <= bottom) return;
+      page = doc.addPage();
+      y = MARGIN;
+    },
+    heading(text: string) {
+      this.reserve(40);
+      y += 24;
+      page.text(text, MARGIN, y, { size: 15, font: 'bold', color: DARK });
+      page.line(MARGIN, y + 6, page.width - MARGIN, y + 6, { color: RULE });
+      y += 22;
+    },
+    paragraph(text: string, size = 10, color = DARK, indent = 0) {
+      const width = page.width - MARGIN * 2 - indent;
+      wrapText(text, width, size).forEach(line => {
+        this.reserve(size * 1.35);
+        page.text(line, MARGIN + indent, y + size, { size, color });
+        y += size * 1.35;
+      });
+    },
+    field(label: string, value: string) {
+      const width = page.width - MARGIN * 2 - 120;
+      const lines = wrapText(value || '-', width, 10);
+      this.reserve(lines.length * 13.5);
+      page.text(label, MARGIN, y + 10, { size: 10, font: 'bold', color: MUTED });
+      lines.forEach((line, i) => page.text(line, MARGIN + 120, y + 10 + i * 13.5, { size: 10, color: DARK }));
+      y += lines.length * 13.5 + 3;
+    },
+  };
+};
+
+/**
+ * Multi-page case report: record details, reference photos, every confirmed
+ * sighting with a crop of the matched frame, and the full case timeline.
+ */
+export const createCaseReportPdf = async (person: Person, candidates: MatchCandidate[], settings: PosterSettings): Promise<Blob> => {
+  const doc = createPdfDocument();
+  const flow = createFlow(doc);
+  const generated = new Date().toLocaleString();
+
+  flow.page.text('CASE REPORT', MARGIN, flow.y + 20, { size: 22, font: 'bold', color: DARK });
+  flow.page.text(`Generated ${generated}`, MARGIN, flow.y + 36, { size: 9, color: MUTED });
+  flow.y += 56;
+
+  const photo = await loadPdfImage(person.imageUrl, undefined, 800);
+  const photoTop = flow.y;
+  if (photo) {
+    const { width, height } = fit(photo, 160, 200);
+    flow.page.image(photo, flow.page.width - MARGIN - width, photoTop, width, height);
+  }
+  flow.page.text(person.name, MARGIN, flow.y + 18, { size: 18, font: 'bold', color: DARK });
+  flow.y += 30;
+  const fields: [string, string][] = [
+    ['Case ID', person.id],
+    ['Status', person.status],
+    ['Age', person.age],
+    ['Last seen', person.lastSeenLocation],
+    ['Coordinates', person.lastSeenCoordinates ? formatPoint(person.lastSeenCoordinates) : ''],
+    ['Last seen date', person.lastSeenDate],
+    ['Clothing', person.lastSeenClothing],
+    ['Reported', new Date(person.reportedAt).toLocaleString()],
+    ['Case link', caseUrl(person, settings)],
+  ];
+  // Details sit beside the photo, so wrap them narrower
+  fields.forEach(([label, value]) => {
+    const lines = wrapText(value || '-', photo ? 200 : 360, 10);
+    flow.page.text(label, MARGIN, flow.y + 10, { size: 10, font: 'bold', color: MUTED });
+    lines.forEach((line, i) => flow.page.text(line, MARGIN + 120, flow.y + 10 + i * 13.5, { size: 10, color: DARK }));
+    flow.y += lines.length * 13.5 + 3;
+  });
+  flow.y = Math.max(flow.y, photoTop + 210);
+
+  flow.heading('Biometric Description');
+  flow.paragraph(person.description || 'None recorded.');
+
+  if (person.images.length > 0) {
+    flow.heading(`Additional Reference Photos (${person.images.length})`);
+    const thumbs = (await Promise.all(person.images.map(src => loadPdfImage(src, undefined, 400)))).filter((i): i is PdfImage => !!i);
+    let x = MARGIN;
+    thumbs.forEach(thumb => {
+      const { width, height } = fit(thumb, 100, 100);
+      if (x + width > flow.page.width - MARGIN) {
+        x = MARGIN;
+        flow.y += 110;
+      }
+      flow.reserve(110);
+      flow.page.image(thumb, x, flow.y, width, height);
+      x += width + 10;
+    });
+    if (thumbs.length > 0) flow.y += 110;
+    if (thumbs.length < person.images.length) flow.paragraph(`${person.images.length - thumbs.length} photo(s) could not be embedded.`, 9, MUTED);
+  }
+
+  const confirmed = candidates
+    .filter(c => c.personId === person.id && c.status === 'CONFIRMED')
+    .sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  flow.heading(`Confirmed Sightings (${confirmed.length})`);
+  if (confirmed.length === 0) flow.paragraph('No sightings have been confirmed by an operator.', 10, MUTED);
+
+  for (const sighting of confirmed) {
+    const crop = await loadPdfImage(sighting.frame, sighting.boundingBox && padBox(sighting.boundingBox), 600);
+    const cropSize = crop ? fit(crop, 150, 150) : { width: 0, height: 0 };
+    flow.reserve(Math.max(cropSize.height, 120) + 12);
+
+    const top = flow.y;
+    if (crop) flow.page.image(crop, MARGIN, top, cropSize.width, cropSize.height);
+    const textX = MARGIN + (crop ? cropSize.width + 14 : 0);
+    const textWidthMax = flow.page.width - MARGIN - textX;
+    const lines: [string, PdfFont, string][] = [
+      [`${sighting.sourceLabel ? `${sighting.sourceLabel} · ` : ''}${sighting.locationContext}`, 'bold', DARK],
+      [`Detected ${new Date(sighting.detectedAt).toLocaleString()} · ${sighting.confidence}% confidence`, 'regular', MUTED],
+      ...(sighting.sourceLocation ? [[`Camera position ${formatPoint(sighting.sourceLocation)}`, 'regular', MUTED] as [string, PdfFont, string]] : []),
+      ...(sighting.decidedAt ? [[`Confirmed ${new Date(sighting.decidedAt).toLocaleString()}`, 'regular', MUTED] as [string, PdfFont, string]] : []),
+      ...(sighting.decisionNote ? [[`Operator note: ${sighting.decisionNote}`, 'regular', DARK] as [string, PdfFont, string]] : []),
+      [`AI: ${sighting.explanation}`, 'regular', MUTED],
+    ];
+    let y = top + 10;
+    lines.forEach(([text, font, color]) => {
+      wrapText(text, textWidthMax, 9.5, font).forEach(line => {
+        flow.page.text(line, textX, y, { size: 9.5, font, color });
+        y += 12.5;
+      });
+      y += 2;
+    });
+    flow.y = Math.max(top + cropSize.height, y) + 12;
+    flow.page.line(MARGIN, flow.y - 6, flow.page.width - MARGIN, flow.y - 6, { color: RULE });
+  }
+
+  flow.heading('Case Timeline');
+  sortTimeline(person.timeline).forEach(event => {
+    flow.field(new Date(event.timestamp).toLocaleDateString(), event.summary);
+    if (event.details) flow.paragraph(event.details, 8.5, MUTED, 120);
+  });
+
+  doc.pages.forEach((page, i) => {
+    const footer = `${person.name} · Case ${person.id.slice(0, 8)} · Page ${i + 1} of ${doc.pages.length}`;
+    page.text(footer, MARGIN, page.height - MARGIN / 2, { size: 8, color: MUTED });
+  });
+
+  return doc.toBlob();
+};
@@ -0,0 +1,71 @@
+import { CaseEvent, CaseStatus, Person } from "../types";
+import { appendEvents, createStatusEvent, sortTimeline } from "./caseTimeline";
+
+// Case lifecycle. Every status change goes through transitionStatus so the
+// allowed moves and closure reasons are enforced in one place:
+//
+//   MISSING <-> SIGHTED      (scan hit / rejected hit)
+//   MISSING|SIGHTED -> FOUND | CLOSED   (closure, reason required)
+//   FOUND|CLOSED -> MISSING  (reopen, reason required)
+
+export const CASE_STATUSES: CaseStatus[] = ['MISSING', 'SIGHTED', 'FOUND', 'CLOSED'];
+
+export const STATUS_LABELS: Record<CaseStatus, string> = {
+  MISSING: 'Missing',
+  SIGHTED: 'Sighted',
+  FOUND: 'Found',
+  CLOSED: 'Closed (other)',
+};
+
+const TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  MISSING: ['SIGHTED', 'FOUND', 'CLOSED'],
+  SIGHTED: ['MISSING', 'FOUND', 'CLOSED'],
+  FOUND: ['MISSING'],
+  CLOSED: ['MISSING'],
+};
+
+// Suggestions for closing a case other than as found; any text is accepted
+export const CLOSURE_REASONS = [
+  'Deceased',
+  'Report withdrawn',
+  'Duplicate report',
+  'Located by another agency',
+];
+
+// Open cases are the ones scans search for
+export const isOpenStatus = (status: CaseStatus) => status === 'MISSING' || status === 'SIGHTED';
+
+export const allowedTransitions = (from: CaseStatus): CaseStatus[] => TRANSITIONS[from];
+
+// Closing a case and reopening one both need a written reason
+export const requiresReason = (from: CaseStatus, to: CaseStatus) => !isOpenStatus(to) || !isOpenStatus(from);
+
+export class StatusTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+// Why a change isn't allowed, or null if it is
+export const checkTransition = (from: CaseStatus, to: CaseStatus, reason?: string): string | null => {
+  if (!TRANSITIONS[from].includes(to)) return `A ${STATUS_LABELS[from].toLowerCase()} case can't move to ${STATUS_LABELS[to].toLowerCase()}.`;
+  if (requiresReason(from, to) && !reason?.trim()) {
+    return isOpenStatus(to) ? 'Give a reason for reopening the case.' : 'Give a reason for closing the case.';
+  }
+  return null;
+};
+
+/**
+ * Moves a case to `to` and records the change (with its reason) on the
+ * timeline. Throws StatusTransitionError for a move the lifecycle forbids.
+ */
+export const transitionStatus = (person: Person, to: CaseStatus, reason?: string): Person => {
+  const problem = checkTransition(person.status, to, reason);
+  if (problem) throw new StatusTransitionError(problem);
+  return appendEvents({ ...person, status: to }, createStatusEvent(person.status, to, reason?.trim() || undefined));
+};
+
+// Status changes only, oldest first
+export const statusHistory = (person: Person): CaseEvent[] =>
+  sortTimeline(person.timeline).filter(event => event.type === 'STATUS_CHANGED');
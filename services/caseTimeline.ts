@@ -0,0 +1,88 @@
+import { ActorStamp, CaseEvent, CaseEventType, Person } from "../types";
+import { formatPoint } from "./geo";
+
+// Text fields a reviewer can edit on the case detail page, with readable labels for the timeline.
+// Coordinates and photos are compared separately below.
+const EDITABLE_FIELDS: Partial<Record<keyof Person, string>> = {
+  name: 'name',
+  age: 'age',
+  lastSeenLocation: 'last seen location',
+  lastSeenDate: 'last seen date',
+  lastSeenClothing: 'clothing',
+  description: 'biometric description',
+};
+
+export const CASE_EVENT_TYPES: CaseEventType[] = ['REPORTED', 'EDITED', 'PHOTO_ADDED', 'SCAN_HIT', 'STATUS_CHANGED'];
+
+export const createCaseEvent = (type: CaseEventType, summary: string, details?: string): CaseEvent => ({
+  id: crypto.randomUUID(),
+  type,
+  timestamp: new Date().toISOString(),
+  summary,
+  details,
+});
+
+export const createStatusEvent = (fromStatus: Person['status'], toStatus: Person['status'], details?: string): CaseEvent => ({
+  ...createCaseEvent('STATUS_CHANGED', `Status changed from ${fromStatus} to ${toStatus}`, details),
+  fromStatus,
+  toStatus,
+});
+
+export const appendEvents = (person: Person, ...events: CaseEvent[]): Person => ({
+  ...person,
+  timeline: [...person.timeline, ...events],
+});
+
+// Credits events from index `since` onwards to `actor`, leaving already-stamped ones alone
+export const stampEvents = (person: Person, actor: ActorStamp, since = 0): Person => ({
+  ...person,
+  timeline: person.timeline.map((event, i) => (i >= since && !event.actor ? { ...event, actor } : event)),
+});
+
+/**
+ * Compares two versions of a record and produces the timeline entries
+ * describing what changed (edits, added/removed photos, a new primary photo). Status is not an edit; it
+ * changes through transitionStatus in caseStatus.ts.
+ */
+export const diffPerson = (before: Person, after: Person): CaseEvent[] => {
+  const events: CaseEvent[] = [];
+
+  const changed = (Object.keys(EDITABLE_FIELDS) as (keyof Person)[])
+    .filter(field => before[field] !== after[field]);
+  if (changed.length > 0) {
+    const labels = changed.map(field => EDITABLE_FIELDS[field]);
+    const details = changed
+      .filter(field => field !== 'description')
+      .map(field => `${EDITABLE_FIELDS[field]}: "${before[field]}" → "${after[field]}"`)
+      .join('\n');
+    events.push(createCaseEvent('EDITED', `Updated ${labels.join(', ')}`, details || undefined));
+  }
+
+  // Coordinates are objects, so compare by value
+  const beforePoint = before.lastSeenCoordinates ? formatPoint(before.lastSeenCoordinates) : 'none';
+  const afterPoint = after.lastSeenCoordinates ? formatPoint(after.lastSeenCoordinates) : 'none';
+  if (beforePoint !== afterPoint) {
+    events.push(createCaseEvent('EDITED', 'Updated last seen coordinates', `${beforePoint} → ${afterPoint}`));
+  }
+
+  // Photos are compared as one gallery, so promoting a photo to primary is a reorder, not an add
+  const beforePhotos = [before.imageUrl, ...before.images];
+  const afterPhotos = [after.imageUrl, ...after.images];
+  const added = afterPhotos.filter(img => !beforePhotos.includes(img)).length;
+  const removed = beforePhotos.filter(img => !afterPhotos.includes(img)).length;
+  if (added > 0) {
+    events.push(createCaseEvent('PHOTO_ADDED', `${added} reference photo${added > 1 ? 's' : ''} added`));
+  }
+  if (removed > 0) {
+    events.push(createCaseEvent('EDITED', `${removed} reference photo${removed > 1 ? 's' : ''} removed`));
+  }
+  if (before.imageUrl !== after.imageUrl) {
+    events.push(createCaseEvent('EDITED', 'Primary photo changed'));
+  }
+
+  return events;
+};
+
+// Oldest first, for rendering the case history top-to-bottom.
+export const sortTimeline = (timeline: CaseEvent[]) =>
+  [...timeline].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
@@ -0,0 +1,503 @@
+import { CaseEvent, CaseEventType, CaseStatus, GeoPoint, Person } from "../types";
+import { PERSON_SCHEMA_VERSION, migratePerson } from "./personRepository";
+import { CASE_EVENT_TYPES, appendEvents, createCaseEvent, diffPerson } from "./caseTimeline";
+import { CASE_STATUSES, checkTransition, transitionStatus } from "./caseStatus";
+import { ZipEntry, createZip, readZip } from "./zip";
+
+export type ExportFormat = 'json' | 'csv';
+// 'embedded' keeps photos inline as data URLs; 'zip' writes them as files next to the data
+export type PhotoMode = 'embedded' | 'zip';
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+// Thrown when a whole file can't be read; per-record problems become ImportRow errors instead.
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+const FORMAT_ID = 'sentinel-cases';
+
+interface CaseFile {
+  format: typeof FORMAT_ID;
+  schemaVersion: number;
+  exportedAt: string;
+  people: Person[];
+}
+
+// CSV carries the flat fields only; the timeline is JSON-only.
+const CSV_COLUMNS = [
+  'id', 'name', 'age', 'status', 'lastSeenLocation', 'lat', 'lng', 'lastSeenDate',
+  'lastSeenClothing', 'description', 'reportedAt', 'imageUrl', 'images',
+] as const;
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const REQUIRED_CSV_COLUMNS: CsvColumn[] = ['name', 'lastSeenLocation', 'lastSeenDate', 'imageUrl'];
+
+// Additional photos share one CSV cell. Neither data URLs nor URLs contain raw spaces.
+const IMAGE_SEPARATOR = ' ';
+
+// --- PHOTOS ---
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const dataUrlToBytes = (url: string): { mime: string; bytes: Uint8Array } | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { mime: match[1], bytes };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mime: string) => {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+const mimeForPath = (path: string) => {
+  const ext = path.split('.').pop()?.toLowerCase();
+  const found = Object.entries(PHOTO_EXTENSIONS).find(([, e]) => e === ext || (ext === 'jpeg' && e === 'jpg'));
+  return found ? found[0] : 'application/octet-stream';
+};
+
+/**
+ * Moves embedded photos out into archive entries and points the record at
+ * them (photos/<id>/<n>.jpg, 0 = primary). Remote URLs are left as they are.
+ */
+const extractPhotos = (person: Person, entries: ZipEntry[]): Person => {
+  const extract = (url: string, index: number) => {
+    const decoded = dataUrlToBytes(url);
+    if (!decoded) return url;
+    const path = `photos/${person.id}/${index}.${PHOTO_EXTENSIONS[decoded.mime] || 'bin'}`;
+    entries.push({ name: path, data: decoded.bytes });
+    return path;
+  };
+  return {
+    ...person,
+    imageUrl: extract(person.imageUrl, 0),
+    images: person.images.map((url, i) => extract(url, i + 1)),
+  };
+};
+
+const isPhotoUrl = (value: string) => /^(data:image\/|https?:\/\/|blob:)/.test(value);
+
+// --- CSV ---
+
+// Spreadsheets run a cell starting with one of these as a formula, so such text
+// is exported behind a leading apostrophe (which they hide) and unwrapped on import.
+// Values already starting with apostrophes get one more, so the round trip is exact.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+const isPlainNumber = (value: string) => /^[-+]?\d+(\.\d+)?$/.test(value);
+
+const escapeCsv = (value: string) => {
+  const guarded = FORMULA_PREFIX.test(value) && !isPlainNumber(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+};
+
+const unguardCsv = (value: string) =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+const toCsv = (people: Person[]) => {
+  const rows = people.map(person => {
+    const cells: Record<CsvColumn, string> = {
+      id: person.id,
+      name: person.name,
+      age: person.age,
+      status: person.status,
+      lastSeenLocation: person.lastSeenLocation,
+      lat: person.lastSeenCoordinates ? String(person.lastSeenCoordinates.lat) : '',
+      lng: person.lastSeenCoordinates ? String(person.lastSeenCoordinates.lng) : '',
+      lastSeenDate: person.lastSeenDate,
+      lastSeenClothing: person.lastSeenClothing,
+      description: person.description,
+      reportedAt: person.reportedAt,
+      imageUrl: person.imageUrl,
+      images: person.images.join(IMAGE_SEPARATOR),
+    };
+    return CSV_COLUMNS.map(column => escapeCsv(cells[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new ImportFormatError('CSV ends inside a quoted field.');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no record
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const csvRecords = (text: string): Record<string, unknown>[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new ImportFormatError('CSV file is empty.');
+
+  // Columns are matched by name, in any order and case
+  const columns = header.map(name => CSV_COLUMNS.find(c => c.toLowerCase() === name.trim().toLowerCase()));
+  const missing = REQUIRED_CSV_COLUMNS.filter(c => !columns.includes(c));
+  if (missing.length > 0) throw new ImportFormatError(`CSV is missing required column(s): ${missing.join(', ')}.`);
+
+  return rows.map(cells => {
+    const raw: Partial<Record<CsvColumn, string>> = {};
+    columns.forEach((column, i) => { if (column) raw[column] = unguardCsv((cells[i] ?? '').trim()); });
+
+    const { lat, lng, images, ...fields } = raw;
+    return {
+      ...fields,
+      images: images ? images.split(/\s+/).filter(Boolean) : [],
+      // A half-filled pair fails validation rather than defaulting to 0
+      lastSeenCoordinates: lat || lng ? { lat: lat ? Number(lat) : NaN, lng: lng ? Number(lng) : NaN } : undefined,
+    };
+  });
+};
+
+// --- EXPORT ---
+
+const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+export const exportPeople = (people: Person[], format: ExportFormat, photos: PhotoMode): ExportFile => {
+  const basename = `sentinel-cases-${dateStamp()}`;
+  const serialize = (records: Person[]) => format === 'json'
+    ? JSON.stringify({ format: FORMAT_ID, schemaVersion: PERSON_SCHEMA_VERSION, exportedAt: new Date().toISOString(), people: records } satisfies CaseFile, null, 2)
+    : toCsv(records);
+  const mime = format === 'json' ? 'application/json' : 'text/csv';
+
+  if (photos === 'embedded') {
+    return { blob: new Blob([serialize(people)], { type: mime }), filename: `${basename}.${format}` };
+  }
+
+  const entries: ZipEntry[] = [];
+  const records = people.map(person => extractPhotos(person, entries));
+  entries.unshift({ name: `cases.${format}`, data: new TextEncoder().encode(serialize(records)) });
+  return { blob: createZip(entries), filename: `${basename}.zip` };
+};
+
+export const downloadFile = ({ blob, filename }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- IMPORT ---
+
+export type DuplicateReason = 'ID' | 'NAME_AND_DATE';
+
+export interface ImportRow {
+  row: number; // 1-based record number within the file
+  label: string; // Name as given, for the report
+  person?: Person; // Set when the record is valid
+  errors: string[];
+  // Matches an existing record, or (existingId unset) an earlier row in the same file.
+  // statusProblem is set when the file's status is a move the case lifecycle forbids.
+  duplicate?: { reason: DuplicateReason; existingId?: string; name: string; statusProblem?: string };
+}
+
+export interface ImportPlan {
+  fileName: string;
+  rows: ImportRow[];
+}
+
+const VALID_ID = /^[\w-]{1,64}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value.trim() : value == null ? '' : String(value);
+
+const validCoordinates = (value: unknown): GeoPoint | undefined | 'INVALID' => {
+  if (value == null) return undefined;
+  if (!isObject(value)) return 'INVALID';
+  const { lat, lng } = value;
+  if (typeof lat !== 'number' || typeof lng !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lng)) return 'INVALID';
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return 'INVALID';
+  return { lat, lng };
+};
+
+// The directory filters and sorts last-seen dates as YYYY-MM-DD text. ISO
+// values keep their date part; anything else Date.parse reads is converted
+// using its local calendar date.
+const normalizeDate = (value: string): string | null => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(Date.parse(value));
+  if (Number.isNaN(date.getTime())) return null;
+  // Rejects rollovers such as 2024-02-31
+  if (iso && (date.getMonth() !== Number(iso[2]) - 1 || date.getDate() !== Number(iso[3]))) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// What's wrong with an imported timeline, or null. Types and statuses must be known values so the case page can render every event.
+const timelineProblem = (value: unknown): string | null => {
+  if (!Array.isArray(value)) return 'timeline must be a list of events.';
+  for (const [i, event] of value.entries()) {
+    if (!isObject(event) || typeof event.id !== 'string' || typeof event.timestamp !== 'string' || typeof event.summary !== 'string') {
+      return `timeline[${i}] is malformed.`;
+    }
+    if (!CASE_EVENT_TYPES.includes(event.type as CaseEventType)) return `timeline[${i}] has unknown type "${String(event.type)}".`;
+    for (const field of ['fromStatus', 'toStatus'] as const) {
+      if (event[field] != null && !CASE_STATUSES.includes(event[field] as CaseStatus)) {
+        return `timeline[${i}].${field} must be one of ${CASE_STATUSES.join(', ')}.`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Checks one incoming record against the Person schema. Collects every
+ * problem rather than stopping at the first, so the report is actionable.
+ */
+const validateRecord = (raw: unknown, resolvePhoto: (ref: string) => string | null): { person?: Person; errors: string[] } => {
+  if (!isObject(raw)) return { errors: ['Record is not an object.'] };
+  const errors: string[] = [];
+
+  // Ids name the record's folder in ZIP exports (photos/<id>/), so they stay path-safe
+  const id = optionalString(raw.id);
+  if (id && !VALID_ID.test(id)) errors.push(`id "${id.slice(0, 60)}" may only use letters, digits, '_' and '-', up to 64 characters.`);
+
+  const required = (field: 'name' | 'lastSeenLocation' | 'lastSeenDate' | 'imageUrl') => {
+    const value = optionalString(raw[field]);
+    if (!value) errors.push(`${field} is required.`);
+    return value;
+  };
+  const name = required('name');
+  const lastSeenLocation = required('lastSeenLocation');
+  const givenDate = required('lastSeenDate');
+  const lastSeenDate = (givenDate && normalizeDate(givenDate)) || '';
+  if (givenDate && !lastSeenDate) errors.push(`lastSeenDate "${givenDate}" is not a date.`);
+
+  const status = optionalString(raw.status) || 'MISSING';
+  if (!CASE_STATUSES.includes(status as Person['status'])) errors.push(`status must be one of ${CASE_STATUSES.join(', ')}.`);
+
+  const reportedAt = optionalString(raw.reportedAt) || new Date().toISOString();
+  if (Number.isNaN(Date.parse(reportedAt))) errors.push(`reportedAt "${reportedAt}" is not a date.`);
+
+  const coordinates = validCoordinates(raw.lastSeenCoordinates);
+  if (coordinates === 'INVALID') errors.push('lastSeenCoordinates must be a valid latitude/longitude.');
+
+  const photo = (ref: string, field: string) => {
+    if (isPhotoUrl(ref)) return ref;
+    const resolved = resolvePhoto(ref);
+    if (!resolved) errors.push(`${field}: photo "${ref.slice(0, 60)}" not found.`);
+    return resolved || '';
+  };
+  const primary = required('imageUrl');
+  const imageUrl = primary ? photo(primary, 'imageUrl') : '';
+
+  let images: string[] = [];
+  if (raw.images != null && !(Array.isArray(raw.images) && raw.images.every(i => typeof i === 'string'))) {
+    errors.push('images must be a list of photo URLs.');
+  } else {
+    images = ((raw.images as string[] | undefined) || []).map((ref, i) => photo(ref, `images[${i}]`));
+  }
+
+  const timelineError = raw.timeline != null && timelineProblem(raw.timeline);
+  if (timelineError) errors.push(timelineError);
+
+  if (errors.length > 0) return { errors };
+
+  const person: Person = {
+    id: id || crypto.randomUUID(),
+    name,
+    age: optionalString(raw.age),
+    lastSeenLocation,
+    lastSeenCoordinates: coordinates as GeoPoint | undefined,
+    lastSeenDate,
+    lastSeenClothing: optionalString(raw.lastSeenClothing),
+    description: optionalString(raw.description),
+    imageUrl,
+    images,
+    status: 'MISSING',
+    reportedAt,
+    timeline: [{
+      id: crypto.randomUUID(),
+      type: 'REPORTED',
+      timestamp: reportedAt,
+      summary: 'Missing person report filed',
+    }],
+  };
+  // A record with its own history keeps it; otherwise a non-missing status is recorded as a change from the report
+  if (raw.timeline != null) return { person: { ...person, status: status as Person['status'], timeline: raw.timeline as CaseEvent[] }, errors };
+  return { person: status === 'MISSING' ? person : transitionStatus(person, status as Person['status'], 'Status given in the imported file'), errors };
+};
+
+// Older exports go through the same migrations as stored records
+const jsonRecords = (text: string): unknown[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError('File is not valid JSON.');
+  }
+
+  // A bare array of records is accepted too, treated as the current schema
+  const file = Array.isArray(parsed) ? { schemaVersion: PERSON_SCHEMA_VERSION, people: parsed } : parsed;
+  if (!isObject(file) || !Array.isArray(file.people)) throw new ImportFormatError('JSON has no "people" list.');
+
+  const version = typeof file.schemaVersion === 'number' ? file.schemaVersion : 0;
+  if (version > PERSON_SCHEMA_VERSION) {
+    throw new ImportFormatError(`File uses record schema v${version}; this app reads up to v${PERSON_SCHEMA_VERSION}.`);
+  }
+  return file.people.map(record => {
+    if (!isObject(record) || version === PERSON_SCHEMA_VERSION) return record;
+    try {
+      return migratePerson({ ...record, schemaVersion: version });
+    } catch {
+      return record; // Validation reports what's wrong with it
+    }
+  });
+};
+
+const importReason = (fileName: string) => `Imported from ${fileName}`;
+
+const duplicateKey = (person: Pick<Person, 'name' | 'lastSeenDate'>) =>
+  `${person.name.trim().toLowerCase().replace(/\s+/g, ' ')}|${person.lastSeenDate.slice(0, 10)}`;
+
+/**
+ * Reads a JSON, CSV or ZIP export and validates every record in it, flagging
+ * duplicates of existing records (same id, or same name and last-seen date)
+ * and of earlier rows in the same file. Nothing is written here.
+ */
+export const parseImportFile = async (file: File, existing: Person[]): Promise<ImportPlan> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let records: unknown[];
+  let resolvePhoto: (ref: string) => string | null = () => null;
+
+  if (extension === 'zip') {
+    const entries = await readZip(await file.arrayBuffer());
+    const files = new Map(entries.map(e => [e.name.replace(/^\.?\//, ''), e.data]));
+    const dataName = Array.from(files.keys()).find(n => /(^|\/)cases\.(json|csv)$/.test(n));
+    if (!dataName) throw new ImportFormatError('Archive has no cases.json or cases.csv.');
+
+    const text = new TextDecoder().decode(files.get(dataName));
+    records = dataName.endsWith('.json') ? jsonRecords(text) : csvRecords(text);
+    resolvePhoto = ref => {
+      const bytes = files.get(ref.replace(/^\.?\//, ''));
+      return bytes ? bytesToDataUrl(bytes, mimeForPath(ref)) : null;
+    };
+  } else if (extension === 'json') {
+    records = jsonRecords(await file.text());
+  } else if (extension === 'csv') {
+    records = csvRecords(await file.text());
+  } else {
+    throw new ImportFormatError('Choose a .json, .csv or .zip file.');
+  }
+
+  const byId = new Map(existing.map(p => [p.id, p]));
+  const byKey = new Map(existing.map(p => [duplicateKey(p), p]));
+  const seenIds = new Set<string>();
+  const seenKeys = new Map<string, string>();
+
+  const rows = records.map((raw, i): ImportRow => {
+    const { person, errors } = validateRecord(raw, resolvePhoto);
+    const label = (isObject(raw) && optionalString(raw.name)) || '(unnamed)';
+    if (!person) return { row: i + 1, label, errors };
+
+    const key = duplicateKey(person);
+    const sameId = byId.get(person.id);
+    const sameKey = byKey.get(key);
+    const statusProblem = (current: Person) =>
+      current.status === person.status ? undefined : checkTransition(current.status, person.status, importReason(file.name)) ?? undefined;
+    let duplicate: ImportRow['duplicate'];
+    if (sameId) duplicate = { reason: 'ID', existingId: sameId.id, name: sameId.name, statusProblem: statusProblem(sameId) };
+    else if (sameKey) duplicate = { reason: 'NAME_AND_DATE', existingId: sameKey.id, name: sameKey.name, statusProblem: statusProblem(sameKey) };
+    else if (seenIds.has(person.id)) duplicate = { reason: 'ID', name: person.name };
+    else if (seenKeys.has(key)) duplicate = { reason: 'NAME_AND_DATE', name: seenKeys.get(key)! };
+
+    seenIds.add(person.id);
+    seenKeys.set(key, person.name);
+    return { row: i + 1, label, person, errors, duplicate };
+  });
+
+  return { fileName: file.name, rows };
+};
+
+export type DuplicatePolicy = 'SKIP' | 'REPLACE';
+
+export interface ImportMerge {
+  fileName: string;
+  added: Person[];
+  replaced: Person[]; // Keyed by the existing record's id; applied with applyImportedRecord
+}
+
+/**
+ * Turns a validated plan into the records to write. Duplicates within the
+ * file are always dropped; duplicates of existing records follow `policy`,
+ * except that one whose status change the lifecycle forbids is never replaced.
+ */
+export const mergeImport = (plan: ImportPlan, existing: Person[], policy: DuplicatePolicy): ImportMerge => {
+  const note = createCaseEvent('EDITED', `Record imported from ${plan.fileName}`);
+  const merge: ImportMerge = { fileName: plan.fileName, added: [], replaced: [] };
+
+  plan.rows.forEach(({ person, duplicate }) => {
+    if (!person) return;
+    if (!duplicate) {
+      merge.added.push(appendEvents(person, { ...note, id: crypto.randomUUID() }));
+      return;
+    }
+    const current = duplicate.existingId && existing.find(p => p.id === duplicate.existingId);
+    if (policy === 'REPLACE' && current && !duplicate.statusProblem && !merge.replaced.some(p => p.id === current.id)) {
+      merge.replaced.push({ ...person, id: current.id, reportedAt: current.reportedAt, timeline: current.timeline });
+    }
+  });
+
+  return merge;
+};
+
+/**
+ * Writes a replacing record over the stored case. The case keeps its history;
+ * field changes are logged as an edit and a new status goes through
+ * transitionStatus, so a move the lifecycle forbids throws
+ * StatusTransitionError rather than being applied.
+ */
+export const applyImportedRecord = (current: Person, imported: Person, fileName: string): Person => {
+  const edited = appendEvents({ ...imported, status: current.status, timeline: current.timeline }, ...diffPerson(current, imported));
+  return imported.status === current.status ? edited : transitionStatus(edited, imported.status, importReason(fileName));
+};
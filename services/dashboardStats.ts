@@ -0,0 +1,99 @@
+import { Person, CaseEvent, MatchCandidate, ScanSession } from "../types";
+import { isOpenStatus } from "./caseStatus";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local-time YYYY-MM-DD bucket for an ISO timestamp or Date
+const dayKey = (value: string | Date) => {
+  const d = new Date(value);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// The last `days` day keys, oldest first, ending today
+const lastDays = (days: number) =>
+  Array.from({ length: days }, (_, i) => dayKey(new Date(Date.now() - (days - 1 - i) * DAY_MS)));
+
+const foundEvents = (person: Person) =>
+  person.timeline.filter(e => e.type === 'STATUS_CHANGED' && e.toStatus === 'FOUND');
+
+// Found or closed for another reason
+const closingEvents = (person: Person) =>
+  person.timeline.filter(e => e.type === 'STATUS_CHANGED' && e.toStatus && !isOpenStatus(e.toStatus));
+
+export const casesOverTime = (people: Person[], days = 14) => {
+  const buckets = new Map(lastDays(days).map(day => [day, { day: day.slice(5), opened: 0, closed: 0 }]));
+
+  people.forEach(person => {
+    const opened = buckets.get(dayKey(person.reportedAt));
+    if (opened) opened.opened++;
+    closingEvents(person).forEach(event => {
+      const bucket = buckets.get(dayKey(event.timestamp));
+      if (bucket) bucket.closed++;
+    });
+  });
+
+  return Array.from(buckets.values());
+};
+
+export const scansPerDay = (sessions: ScanSession[], days = 14) => {
+  const buckets = new Map(lastDays(days).map(day => [day, { day: day.slice(5), scans: 0, frames: 0 }]));
+
+  sessions.forEach(session => {
+    const bucket = buckets.get(dayKey(session.startedAt));
+    if (!bucket) return;
+    bucket.scans++;
+    bucket.frames += session.framesAnalyzed;
+  });
+
+  return Array.from(buckets.values());
+};
+
+/**
+ * Median time from report to the (latest) FOUND transition, over cases
+ * currently FOUND. Null when no case has been closed yet.
+ */
+export const medianTimeToFound = (people: Person[]): number | null => {
+  const durations = people
+    .filter(p => p.status === 'FOUND')
+    .map(p => {
+      const found = foundEvents(p).pop();
+      return found ? new Date(found.timestamp).getTime() - new Date(p.reportedAt).getTime() : null;
+    })
+    .filter((d): d is number => d !== null && d >= 0)
+    .sort((a, b) => a - b);
+
+  if (durations.length === 0) return null;
+  const mid = Math.floor(durations.length / 2);
+  return durations.length % 2 ? durations[mid] : (durations[mid - 1] + durations[mid]) / 2;
+};
+
+// Share of analyzed frames that produced at least one detection
+export const frameHitRate = (sessions: ScanSession[]): number | null => {
+  const frames = sessions.reduce((sum, s) => sum + s.framesAnalyzed, 0);
+  if (frames === 0) return null;
+  return sessions.reduce((sum, s) => sum + s.framesWithHits, 0) / frames;
+};
+
+// Share of reviewed AI hits that operators confirmed
+export const confirmationRate = (candidates: MatchCandidate[]): number | null => {
+  const decided = candidates.filter(c => c.status !== 'PENDING');
+  if (decided.length === 0) return null;
+  return decided.filter(c => c.status === 'CONFIRMED').length / decided.length;
+};
+
+export const foundSince = (people: Person[], sinceMs: number) =>
+  people.reduce((count, p) =>
+    count + foundEvents(p).filter(e => new Date(e.timestamp).getTime() >= sinceMs).length, 0);
+
+export const recentActivity = (people: Person[], limit = 10): { person: Person; event: CaseEvent }[] =>
+  people
+    .flatMap(person => person.timeline.map(event => ({ person, event })))
+    .sort((a, b) => b.event.timestamp.localeCompare(a.event.timestamp))
+    .slice(0, limit);
+
+export const formatDuration = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours < 1) return `${Math.round(ms / 60000)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+};
@@ -0,0 +1,77 @@
+// Shared IndexedDB connection for all persisted app data.
+const DB_NAME = 'sentinel';
+const DB_VERSION = 8;
+
+export const STORES = {
+  PEOPLE: 'people',
+  CANDIDATES: 'candidates',
+  SESSIONS: 'sessions',
+  CAMERAS: 'cameras',
+  SESSION_LOG: 'sessionLog',
+  SETTINGS: 'settings',
+  EVIDENCE: 'evidence',
+  USERS: 'users',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Secondary indexes, named after the field they cover
+const STORE_INDEXES: Partial<Record<StoreName, string[]>> = {
+  [STORES.SESSION_LOG]: ['sessionId'],
+  [STORES.EVIDENCE]: ['personId'],
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades, if needed) the app database. The connection is cached,
+ * so every repository shares a single handle.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Every store is keyed by the record's own id
+      Object.values(STORES).forEach(name => {
+        const store = db.objectStoreNames.contains(name)
+          ? request.transaction!.objectStore(name)
+          : db.createObjectStore(name, { keyPath: 'id' });
+        (STORE_INDEXES[name] || []).forEach(field => {
+          if (!store.indexNames.contains(field)) store.createIndex(field, field);
+        });
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single IDBRequest in a Promise.
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request against a store in its own transaction.
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisifyRequest(run(store));
+};
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
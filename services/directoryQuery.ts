@@ -0,0 +1,89 @@
+import { Person } from "../types";
+
+export type DirectorySort =
+  | 'REPORTED_DESC'
+  | 'REPORTED_ASC'
+  | 'LAST_SEEN_DESC'
+  | 'NAME_ASC'
+  | 'NAME_DESC'
+  | 'AGE_ASC'
+  | 'AGE_DESC';
+
+export const SORT_LABELS: Record<DirectorySort, string> = {
+  REPORTED_DESC: 'Newest reports',
+  REPORTED_ASC: 'Oldest reports',
+  LAST_SEEN_DESC: 'Last seen (recent first)',
+  NAME_ASC: 'Name A-Z',
+  NAME_DESC: 'Name Z-A',
+  AGE_ASC: 'Age (youngest)',
+  AGE_DESC: 'Age (oldest)',
+};
+
+export interface DirectoryQuery {
+  text: string;
+  statuses: Person['status'][]; // Empty = all
+  minAge?: number;
+  maxAge?: number;
+  seenFrom?: string; // YYYY-MM-DD, inclusive
+  seenTo?: string;   // YYYY-MM-DD, inclusive
+  sort: DirectorySort;
+}
+
+export const EMPTY_QUERY: DirectoryQuery = {
+  text: '',
+  statuses: [],
+  sort: 'REPORTED_DESC',
+};
+
+// Lowercased text searched by the free-text box
+const searchableText = (person: Person) =>
+  [person.name, person.lastSeenLocation, person.lastSeenClothing, person.description].join(' ').toLowerCase();
+
+/**
+ * Builds a search index once per people list, so typing only re-runs the
+ * cheap filter step.
+ */
+export const indexPeople = (people: Person[]) =>
+  people.map(person => ({ person, text: searchableText(person), age: parseInt(person.age, 10) }));
+
+type IndexedPerson = ReturnType<typeof indexPeople>[number];
+
+const COMPARATORS: Record<DirectorySort, (a: IndexedPerson, b: IndexedPerson) => number> = {
+  REPORTED_DESC: (a, b) => b.person.reportedAt.localeCompare(a.person.reportedAt),
+  REPORTED_ASC: (a, b) => a.person.reportedAt.localeCompare(b.person.reportedAt),
+  LAST_SEEN_DESC: (a, b) => b.person.lastSeenDate.localeCompare(a.person.lastSeenDate),
+  NAME_ASC: (a, b) => a.person.name.localeCompare(b.person.name),
+  NAME_DESC: (a, b) => b.person.name.localeCompare(a.person.name),
+  // Unparseable ages sort last either way
+  AGE_ASC: (a, b) => (isNaN(a.age) ? Infinity : a.age) - (isNaN(b.age) ? Infinity : b.age),
+  AGE_DESC: (a, b) => (isNaN(b.age) ? -Infinity : b.age) - (isNaN(a.age) ? -Infinity : a.age),
+};
+
+/**
+ * Applies search, filters and sort. Every whitespace-separated search term
+ * must appear somewhere in the record.
+ */
+export const queryPeople = (index: IndexedPerson[], query: DirectoryQuery): Person[] => {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return index
+    .filter(entry => {
+      const { person } = entry;
+      if (query.statuses.length > 0 && !query.statuses.includes(person.status)) return false;
+      if (query.minAge !== undefined && !(entry.age >= query.minAge)) return false;
+      if (query.maxAge !== undefined && !(entry.age <= query.maxAge)) return false;
+      if (query.seenFrom && person.lastSeenDate < query.seenFrom) return false;
+      if (query.seenTo && person.lastSeenDate > query.seenTo) return false;
+      return terms.every(term => entry.text.includes(term));
+    })
+    .sort(COMPARATORS[query.sort])
+    .map(entry => entry.person);
+};
+
+export const isQueryActive = (query: DirectoryQuery) =>
+  query.text.trim() !== '' ||
+  query.statuses.length > 0 ||
+  query.minAge !== undefined ||
+  query.maxAge !== undefined ||
+  !!query.seenFrom ||
+  !!query.seenTo;
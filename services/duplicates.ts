@@ -0,0 +1,163 @@
+import { Person } from "../types";
+import { isOpenStatus } from "./caseStatus";
+import { appendEvents, createCaseEvent, diffPerson } from "./caseTimeline";
+import { BatchScanOptions, CallOptions, scanCrowdForBatch } from "./recognition";
+import { RecognitionError, classifyError } from "./errors";
+
+// Duplicate report detection. A new report is compared with the directory
+// on its details (name, age, last-seen date) and by asking the recognition
+// provider whether the new photo shows any open case.
+
+// A case is offered as a likely duplicate at or above either score (0-100)
+export const DETAILS_THRESHOLD = 60;
+export const FACE_THRESHOLD = 60;
+
+export interface DuplicateMatch {
+  person: Person;
+  score: number; // Best of detailsScore and faceConfidence, for ranking
+  detailsScore: number;
+  faceConfidence?: number; // Unset when the photo wasn't matched to this case
+  reasons: string[];
+}
+
+export interface DuplicateCheck {
+  matches: DuplicateMatch[]; // Highest score first
+  faceError?: RecognitionError; // The face comparison failed; matches are on details only
+}
+
+const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9\s]/g, ' ').trim().replace(/\s+/g, ' ');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const ratio = (a: string, b: string) =>
+  a.length || b.length ? 1 - levenshtein(a, b) / Math.max(a.length, b.length) : 0;
+
+/**
+ * Name similarity from 0 to 1. Tolerates typos, accents and reordered names
+ * ("Doe, John" vs "John Doe").
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  const sorted = (name: string) => name.split(' ').sort().join(' ');
+  return Math.max(ratio(left, right), ratio(sorted(left), sorted(right)));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scores how closely a report's details match an existing case: name is
+ * worth up to 60 points, age and last-seen date up to 20 each.
+ */
+export const scoreDetails = (report: Person, existing: Person): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const name = nameSimilarity(report.name, existing.name);
+  // Below this, names are different people however close the other details are
+  if (name < 0.75) return { score: 0, reasons };
+  score += Math.round(name * 60);
+  reasons.push(name === 1 ? 'Same name' : `Similar name (${Math.round(name * 100)}%)`);
+
+  const ageGap = Math.abs(parseInt(report.age, 10) - parseInt(existing.age, 10));
+  if (ageGap <= 1) {
+    score += 20;
+    reasons.push(ageGap === 0 ? 'Same age' : 'Age within a year');
+  } else if (ageGap <= 3) {
+    score += 10;
+    reasons.push(`Age ${ageGap} years apart`);
+  }
+
+  const dayGap = Math.abs(Date.parse(report.lastSeenDate) - Date.parse(existing.lastSeenDate)) / DAY_MS;
+  if (dayGap < 1) {
+    score += 20;
+    reasons.push('Same last-seen date');
+  } else if (dayGap <= 7) {
+    score += 10;
+    reasons.push(`Last seen ${Math.round(dayGap)} days apart`);
+  }
+
+  return { score, reasons };
+};
+
+/**
+ * Looks for existing cases the report may duplicate. Details are compared
+ * against every case; the photo is compared against open cases and any
+ * closed case whose details already match. A failed face comparison is
+ * reported in `faceError` rather than thrown, so the details check still
+ * stands on its own.
+ */
+export const findDuplicates = async (
+  report: Person,
+  people: Person[],
+  options: BatchScanOptions = {},
+  callOptions: CallOptions = {}
+): Promise<DuplicateCheck> => {
+  const details = new Map(people.map(person => [person.id, scoreDetails(report, person)]));
+  const faces = new Map<string, { confidence: number; explanation: string }>();
+  let faceError: RecognitionError | undefined;
+
+  const references = people.filter(p => p.imageUrl && (isOpenStatus(p.status) || details.get(p.id)!.score >= DETAILS_THRESHOLD));
+  if (report.imageUrl && references.length > 0) {
+    try {
+      const result = await scanCrowdForBatch(references, report.imageUrl, options, callOptions);
+      result.detections.forEach(d => faces.set(d.personId, d));
+    } catch (err) {
+      faceError = classifyError(err);
+    }
+  }
+
+  const matches = people.flatMap((person): DuplicateMatch[] => {
+    const { score: detailsScore, reasons } = details.get(person.id)!;
+    const face = faces.get(person.id);
+    const faceConfidence = face && face.confidence >= FACE_THRESHOLD ? face.confidence : undefined;
+    if (detailsScore < DETAILS_THRESHOLD && faceConfidence === undefined) return [];
+    return [{
+      person,
+      score: Math.max(detailsScore, faceConfidence ?? 0),
+      detailsScore,
+      faceConfidence,
+      reasons: faceConfidence === undefined ? reasons : [...reasons, `Photo matches (${faceConfidence}%): ${face!.explanation}`],
+    }];
+  });
+
+  return { matches: matches.sort((a, b) => b.score - a.score), faceError };
+};
+
+/**
+ * Folds a duplicate report into an existing case. The case keeps its own
+ * details and status; the report's photo is added as a reference photo,
+ * fields the case left blank are filled in, and what the second reporter
+ * said is kept on the timeline.
+ */
+export const mergeReport = (existing: Person, report: Person): Person => {
+  const photos = [existing.imageUrl, ...existing.images];
+  const merged: Person = {
+    ...existing,
+    age: existing.age || report.age,
+    lastSeenCoordinates: existing.lastSeenCoordinates || report.lastSeenCoordinates,
+    lastSeenClothing: existing.lastSeenClothing || report.lastSeenClothing,
+    description: existing.description || report.description,
+    images: report.imageUrl && !photos.includes(report.imageUrl) ? [...existing.images, report.imageUrl] : existing.images,
+  };
+
+  const details = [
+    `Name: ${report.name}`,
+    `Age: ${report.age}`,
+    `Last seen: ${report.lastSeenLocation} on ${report.lastSeenDate}`,
+    `Wearing: ${report.lastSeenClothing}`,
+  ].join('\n');
+  return appendEvents(merged, createCaseEvent('EDITED', 'Duplicate report merged into this case', details), ...diffPerson(existing, merged));
+};
@@ -0,0 +1,78 @@
+export type RecognitionErrorKind =
+  | 'AUTH'             // Missing/invalid API key or permission denied
+  | 'QUOTA'            // Rate limited or quota exhausted
+  | 'TIMEOUT'          // Request took too long
+  | 'NETWORK'          // Connection dropped or service unavailable
+  | 'INVALID_RESPONSE' // Response unusable (see validation.ts)
+  | 'SAFETY_BLOCK'     // Input or output blocked by the provider's safety filters
+  | 'UNKNOWN';
+
+// Kinds worth retrying automatically - the same request may succeed later.
+const TRANSIENT_KINDS: RecognitionErrorKind[] = ['QUOTA', 'TIMEOUT', 'NETWORK'];
+
+/**
+ * Error raised by any recognition call. UI code switches on `kind`
+ * rather than parsing messages.
+ */
+export class RecognitionError extends Error {
+  constructor(
+    public readonly kind: RecognitionErrorKind,
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'RecognitionError';
+  }
+
+  get retryable(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+// Kind implied by a failed HTTP status, if any
+export const kindForStatus = (status: number): RecognitionErrorKind | undefined => {
+  if (status === 401 || status === 403) return 'AUTH';
+  if (status === 429) return 'QUOTA';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status >= 500) return 'NETWORK';
+  return undefined;
+};
+
+/**
+ * Maps whatever a call threw (fetch TypeError, abort, ...) to a
+ * RecognitionError. Provider SDK errors are classified by their backend on the
+ * server; the client reads the kind from the server's error reply.
+ */
+export const classifyError = (error: unknown): RecognitionError => {
+  if (error instanceof RecognitionError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof DOMException && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return new RecognitionError('TIMEOUT', message, error);
+  }
+  // fetch() rejects with a TypeError when the connection fails
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new RecognitionError('NETWORK', message, error);
+  }
+  // Also runs in the API server, where there is no navigator
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return new RecognitionError('NETWORK', message, error);
+
+  return new RecognitionError('UNKNOWN', message, error);
+};
+
+// Pause before a scan loop's next frame after retries were exhausted on a rate limit.
+export const QUOTA_COOLDOWN_MS = 30000;
+
+// Short operator-facing explanation for each kind.
+export const describeErrorKind = (kind: RecognitionErrorKind): string => {
+  switch (kind) {
+    case 'AUTH': return "AI service rejected the API key. Check configuration.";
+    case 'QUOTA': return "AI rate limit reached. Wait before retrying.";
+    case 'TIMEOUT': return "AI service timed out.";
+    case 'NETWORK': return "AI service unreachable. Check the connection.";
+    case 'INVALID_RESPONSE': return "AI returned an unusable response.";
+    case 'SAFETY_BLOCK': return "Image was blocked by the AI safety filter.";
+    default: return "Unexpected AI error.";
+  }
+};
@@ -0,0 +1,55 @@
+import { Evidence, MatchCandidate } from "../types";
+import { STORES, isIndexedDbAvailable, withStore } from "./db";
+import { cropFrame, padBox } from "./frames";
+
+/**
+ * Evidence attached to cases: one record per detection, kept regardless of
+ * the review outcome so rejected hits can still be audited.
+ */
+export interface EvidenceStore {
+  save(evidence: Evidence): Promise<void>;
+  // Evidence for one case, newest first
+  forPerson(personId: string): Promise<Evidence[]>;
+}
+
+// Builds the evidence record for a freshly queued hit, cropping the matched region
+export const createEvidence = async (candidate: MatchCandidate): Promise<Evidence> => ({
+  id: crypto.randomUUID(),
+  personId: candidate.personId,
+  candidateId: candidate.id,
+  sessionId: candidate.sessionId,
+  capturedAt: candidate.detectedAt,
+  crop: candidate.boundingBox ? (await cropFrame(candidate.frame, padBox(candidate.boundingBox))) ?? undefined : undefined,
+  boundingBox: candidate.boundingBox,
+  confidence: candidate.confidence,
+  locationContext: candidate.locationContext,
+  sourceLabel: candidate.sourceLabel,
+});
+
+const newestFirst = (items: Evidence[]) =>
+  items.sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+
+export const createIndexedDbEvidenceStore = (): EvidenceStore => ({
+  async save(evidence) {
+    await withStore(STORES.EVIDENCE, 'readwrite', store => store.put(evidence));
+  },
+  async forPerson(personId) {
+    const items = await withStore<Evidence[]>(STORES.EVIDENCE, 'readonly',
+      store => store.index('personId').getAll(personId));
+    return newestFirst(items);
+  },
+});
+
+export const createInMemoryEvidenceStore = (): EvidenceStore => {
+  const items = new Map<string, Evidence>();
+
+  return {
+    async save(evidence) { items.set(evidence.id, evidence); },
+    async forPerson(personId) {
+      return newestFirst(Array.from(items.values()).filter(e => e.personId === personId));
+    },
+  };
+};
+
+export const createEvidenceStore = (): EvidenceStore =>
+  isIndexedDbAvailable() ? createIndexedDbEvidenceStore() : createInMemoryEvidenceStore();
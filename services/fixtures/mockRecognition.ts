@@ -0,0 +1,46 @@
+// Canned responses for the offline mock recognition provider.
+// Edit these to script demos; selection is deterministic per image.
+
+export const MOCK_LATENCY_MS = 600;
+
+// Share of crowd frames (0-1) that contain a match
+export const MOCK_HIT_RATE = 0.35;
+
+export const MOCK_DESCRIPTIONS = [
+  "Short dark brown hair, brown eyes, oval face with defined cheekbones, small mole above left lip, slim build.",
+  "Shoulder-length blonde wavy hair, blue eyes, round face, light freckles across nose, average build.",
+  "Close-cropped black hair, dark eyes, square jaw, faint scar on right eyebrow, athletic build.",
+  "Long straight red hair, green eyes, heart-shaped face, fair complexion, petite build.",
+  "Grey receding hair, hazel eyes, long face with deep smile lines, wears no facial hair, heavy build.",
+];
+
+export const MOCK_MATCHES: { confidence: number; box: [number, number, number, number]; explanation: string }[] = [
+  {
+    confidence: 91,
+    box: [180, 420, 640, 560],
+    explanation: "Facial structure and hairline closely match the reference photo; clothing consistent with report.",
+  },
+  {
+    confidence: 82,
+    box: [240, 120, 780, 300],
+    explanation: "Partial profile view; eye spacing and jawline match. Clothing colour matches reported description.",
+  },
+  {
+    confidence: 64,
+    box: [300, 700, 860, 880],
+    explanation: "Similar build and hair, but face partially occluded. Low certainty.",
+  },
+];
+
+// Identify lookups: a portrait that is one of the case's own photos scores
+// MOCK_SAME_PHOTO_SIMILARITY; any other pairing a hash-picked score below the cap
+export const MOCK_SAME_PHOTO_SIMILARITY = 97;
+export const MOCK_MAX_UNRELATED_SIMILARITY = 70;
+
+// Explanation for a similarity score: the first entry whose floor it reaches
+export const MOCK_SIMILARITY_NOTES: { min: number; explanation: string }[] = [
+  { min: 90, explanation: "Same facial structure, eye spacing and hairline; distinctive marks match the reference photo." },
+  { min: 50, explanation: "Similar face shape and features, but lighting and angle differ. Possible match." },
+  { min: 25, explanation: "Some shared features (hair colour, build) but the face differs in several details." },
+  { min: 0, explanation: "Facial features do not match the reference photo." },
+];
@@ -0,0 +1,169 @@
+// Grabbing still frames from <video>/<img> sources for analysis.
+
+/**
+ * Draws the source's current frame onto `canvas` and returns it as a base64
+ * JPEG data URL, or null while the source has no dimensions yet.
+ * Throws a SecurityError for cross-origin media served without CORS headers.
+ */
+export const captureFrame = (
+  source: HTMLVideoElement | HTMLImageElement,
+  canvas: HTMLCanvasElement,
+  quality = 0.8
+): string | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+
+  if (width === 0 || height === 0) return null;
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+type BoundingBox = [number, number, number, number];
+
+// Widens a [ymin, xmin, ymax, xmax] box (0-1000) so a crop keeps some context around the person
+export const padBox = (box: BoundingBox, pad = 80): BoundingBox => [
+  Math.max(0, box[0] - pad), Math.max(0, box[1] - pad), Math.min(1000, box[2] + pad), Math.min(1000, box[3] + pad),
+];
+
+/**
+ * Cuts a box region out of a captured frame and returns it as a JPEG data
+ * URL. Resolves null if the frame can't be decoded.
+ */
+export const cropFrame = (frame: string, box: BoundingBox, quality = 0.9): Promise<string | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onerror = () => resolve(null);
+    img.onload = () => {
+      const [ymin, xmin, ymax, xmax] = box;
+      const sx = (xmin / 1000) * img.naturalWidth;
+      const sy = (ymin / 1000) * img.naturalHeight;
+      const sw = Math.max(1, ((xmax - xmin) / 1000) * img.naturalWidth);
+      const sh = Math.max(1, ((ymax - ymin) / 1000) * img.naturalHeight);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(sw);
+      canvas.height = Math.round(sh);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.src = frame;
+  });
+
+// --- Change detection ---
+// Live feeds mostly show an unchanged scene; comparing a small grayscale
+// thumbnail against the last analyzed frame lets us skip redundant AI calls.
+
+export interface ChangeDetectionOptions {
+  enabled: boolean;
+  sensitivity: number; // 0-100; higher sends frames for smaller changes
+  keepaliveMs: number; // Send a frame at least this often even if nothing changed (0 = never)
+}
+
+export const DEFAULT_CHANGE_DETECTION: ChangeDetectionOptions = {
+  enabled: true,
+  sensitivity: 50,
+  keepaliveMs: 30000,
+};
+
+export interface FrameChange {
+  changed: boolean;
+  score: number; // 0 (identical) - 1 (completely different)
+  forced: boolean; // Sent because of the keepalive, not a detected change
+}
+
+export interface ChangeDetector {
+  // Compares the source's current frame with the last one sent; a changed frame becomes the new reference.
+  // `now` (ms) drives the keepalive; pass the media time when stepping through recorded footage.
+  check(source: HTMLVideoElement | HTMLImageElement, options: ChangeDetectionOptions, now?: number): FrameChange;
+  // Forget the reference so the next frame is sent (e.g. after its analysis failed)
+  reset(): void;
+  readonly stats: { sent: number; skipped: number };
+}
+
+const SIGNATURE_WIDTH = 64;
+const SIGNATURE_HEIGHT = 48;
+const HISTOGRAM_BINS = 32;
+const PIXEL_NOISE = 24; // Gray-level difference below this is sensor noise/compression
+
+interface FrameSignature {
+  gray: Uint8Array;
+  histogram: Float32Array; // Normalized to sum 1
+}
+
+const computeSignature = (source: HTMLVideoElement | HTMLImageElement, canvas: HTMLCanvasElement): FrameSignature | null => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+  if (!ctx || width === 0) return null;
+
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const pixels = SIGNATURE_WIDTH * SIGNATURE_HEIGHT;
+  const gray = new Uint8Array(pixels);
+  const histogram = new Float32Array(HISTOGRAM_BINS);
+
+  for (let i = 0; i < pixels; i++) {
+    const value = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    gray[i] = value;
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(value / (256 / HISTOGRAM_BINS)))] += 1 / pixels;
+  }
+  return { gray, histogram };
+};
+
+/**
+ * Change between two frames: the larger of the share of pixels that moved
+ * (catches a person walking in) and the histogram distance (catches
+ * lighting/scene changes that shift many pixels slightly).
+ */
+const compareSignatures = (a: FrameSignature, b: FrameSignature): number => {
+  let movedPixels = 0;
+  for (let i = 0; i < a.gray.length; i++) {
+    if (Math.abs(a.gray[i] - b.gray[i]) > PIXEL_NOISE) movedPixels++;
+  }
+  let histogramDistance = 0;
+  for (let i = 0; i < HISTOGRAM_BINS; i++) {
+    histogramDistance += Math.abs(a.histogram[i] - b.histogram[i]);
+  }
+  return Math.max(movedPixels / a.gray.length, histogramDistance / 2);
+};
+
+// Sensitivity 50 needs ~5% of the frame to change; 100 sends any difference at all
+export const changeThreshold = (sensitivity: number) => 0.2 * ((100 - Math.min(100, Math.max(0, sensitivity))) / 100) ** 2;
+
+export const createChangeDetector = (): ChangeDetector => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  let reference: FrameSignature | null = null;
+  let referenceAt = 0;
+  const stats = { sent: 0, skipped: 0 };
+
+  return {
+    check(source, options, now = Date.now()) {
+      const signature = computeSignature(source, canvas);
+      const score = signature && reference ? compareSignatures(signature, reference) : 1;
+      const forced = options.keepaliveMs > 0 && reference !== null && now - referenceAt >= options.keepaliveMs;
+      const changed = score > changeThreshold(options.sensitivity) || forced;
+
+      if (changed) {
+        reference = signature;
+        referenceAt = now;
+        stats.sent++;
+      } else {
+        stats.skipped++;
+      }
+      return { changed, score, forced: forced && score <= changeThreshold(options.sensitivity) };
+    },
+    reset() {
+      reference = null;
+    },
+    stats,
+  };
+};
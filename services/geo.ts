@@ -0,0 +1,43 @@
+import { GeoPoint } from "../types";
+
+const EARTH_RADIUS_KM = 6371;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle distance between two points
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const formatDistance = (km: number) =>
+  km < 1 ? `${Math.round(km * 1000)} m` : km < 100 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+
+export const formatPoint = (point: GeoPoint) => `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`;
+
+export const isValidPoint = (point: GeoPoint) =>
+  Number.isFinite(point.lat) && Number.isFinite(point.lng) &&
+  Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180;
+
+/**
+ * Parses "lat, lng" text as typed by an operator. Returns null for anything
+ * that isn't a valid coordinate pair.
+ */
+export const parsePoint = (text: string): GeoPoint | null => {
+  const parts = text.split(/[,\s]+/).filter(Boolean).map(Number);
+  if (parts.length !== 2) return null;
+  const point = { lat: parts[0], lng: parts[1] };
+  return isValidPoint(point) ? point : null;
+};
+
+// Browser geolocation as a promise
+export const getCurrentPoint = (): Promise<GeoPoint> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) return reject(new Error("Geolocation not supported"));
+    navigator.geolocation.getCurrentPosition(
+      pos => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      err => reject(new Error(err.message)),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
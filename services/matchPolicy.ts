@@ -0,0 +1,111 @@
+import { Detection, MatchTier, ScanSession } from "../types";
+
+// What happens to a detection, by confidence (0-100, thresholds inclusive):
+//   >= flag    queued for review AND the case is flagged SIGHTED
+//   >= review  queued for review only
+//   below      discarded (still recorded in the session audit log)
+export interface MatchThresholds {
+  flag: number;
+  review: number;
+}
+
+export type MatchSource = ScanSession['source'];
+
+export interface MatchPolicy {
+  thresholds: MatchThresholds;
+  overrides: Partial<Record<MatchSource, MatchThresholds>>; // Replace the defaults for one scan mode
+  // Live feeds: a person must clear the review threshold in this many consecutive analyzed frames
+  liveConsecutiveFrames: number;
+}
+
+export const DEFAULT_MATCH_POLICY: MatchPolicy = {
+  thresholds: { flag: 75, review: 60 },
+  overrides: {},
+  liveConsecutiveFrames: 1,
+};
+
+export const MATCH_SOURCE_LABELS: Record<MatchSource, string> = {
+  image: 'Still images',
+  video: 'Recorded video',
+  stream: 'Live feeds',
+};
+
+export const thresholdsFor = (policy: MatchPolicy, source: MatchSource): MatchThresholds =>
+  policy.overrides[source] || policy.thresholds;
+
+export const classifyConfidence = (confidence: number, thresholds: MatchThresholds): MatchTier | 'DISCARD' => {
+  if (confidence >= thresholds.flag) return 'FLAG';
+  if (confidence >= thresholds.review) return 'REVIEW';
+  return 'DISCARD';
+};
+
+// Detections that clear the review threshold, in input order
+export const acceptedDetections = (detections: Detection[], thresholds: MatchThresholds): Detection[] =>
+  detections.filter(d => classifyConfidence(d.confidence, thresholds) !== 'DISCARD');
+
+// Returns a description of what's wrong with a policy, or null if it can be saved
+export const validateMatchPolicy = (policy: MatchPolicy): string | null => {
+  const check = (t: MatchThresholds, label: string) => {
+    if ([t.flag, t.review].some(v => !Number.isFinite(v) || v < 0 || v > 100)) return `${label}: thresholds must be between 0 and 100.`;
+    if (t.review > t.flag) return `${label}: the review threshold can't be above the flag threshold.`;
+    return null;
+  };
+  const problems = [
+    check(policy.thresholds, 'Defaults'),
+    ...(Object.keys(policy.overrides) as MatchSource[]).map(source => check(policy.overrides[source]!, MATCH_SOURCE_LABELS[source])),
+  ];
+  if (!Number.isInteger(policy.liveConsecutiveFrames) || policy.liveConsecutiveFrames < 1) {
+    problems.push('Consecutive frames must be a whole number of at least 1.');
+  }
+  return problems.find(Boolean) || null;
+};
+
+/**
+ * Debounces live hits: a person is only reported once they were accepted in
+ * `required` consecutive frames. The streak restarts after each report, so a
+ * person standing in view is re-reported every `required` frames, not every frame.
+ */
+export const createStreakTracker = (required: number) => {
+  const streaks = new Map<string, number>();
+
+  return {
+    update(accepted: Detection[]): Detection[] {
+      const seen = new Set(accepted.map(d => d.personId));
+      Array.from(streaks.keys()).forEach(id => { if (!seen.has(id)) streaks.delete(id); });
+
+      return accepted.filter(detection => {
+        const streak = (streaks.get(detection.personId) || 0) + 1;
+        if (streak >= required) {
+          streaks.delete(detection.personId);
+          return true;
+        }
+        streaks.set(detection.personId, streak);
+        return false;
+      });
+    },
+    reset() {
+      streaks.clear();
+    },
+  };
+};
+
+// A live feed sees the same person frame after frame; one review entry per appearance is enough
+export const LIVE_HIT_COOLDOWN_MS = 60_000;
+
+/**
+ * Holds back live hits for people who already have a hit awaiting review,
+ * or whom this feed raised within the cooldown (the review queue may not
+ * have caught up with that hit yet).
+ */
+export const createHitGate = (cooldownMs = LIVE_HIT_COOLDOWN_MS) => {
+  const raisedAt = new Map<string, number>();
+
+  return {
+    filter(hits: Detection[], pendingPersonIds: Set<string>, now = Date.now()): Detection[] {
+      const allowed = hits.filter(d =>
+        !pendingPersonIds.has(d.personId) && now - (raisedAt.get(d.personId) ?? -Infinity) >= cooldownMs);
+      allowed.forEach(d => raisedAt.set(d.personId, now));
+      return allowed;
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import { Detection, IdentityCandidate, Person } from "../types";
+import { RecognitionProvider } from "./recognition";
+import {
+  MOCK_DESCRIPTIONS, MOCK_HIT_RATE, MOCK_LATENCY_MS, MOCK_MATCHES,
+  MOCK_MAX_UNRELATED_SIMILARITY, MOCK_SAME_PHOTO_SIMILARITY, MOCK_SIMILARITY_NOTES,
+} from "./fixtures/mockRecognition";
+
+// Sampled FNV-style hash (every 97th character, mixed with the length; not true
+// FNV-1a) - cheap on large images, and the same image always yields the same mock answer
+const hash = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 97) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h ^ input.length) >>> 0;
+};
+
+// The fixture answers below are shared with the API server's stub backend
+// (server/stubBackend.ts); `source` names which one answered in the summary.
+
+export const mockDescription = (image: string): string =>
+  MOCK_DESCRIPTIONS[hash(image) % MOCK_DESCRIPTIONS.length];
+
+// At most one detection per scene, picked from a hash of the scene
+export const mockScan = (
+  people: Pick<Person, 'id' | 'name'>[],
+  scene: string,
+  source: string
+): { detections: Detection[]; summary: string } => {
+  const seed = hash(scene);
+  if (people.length === 0 || (seed % 100) / 100 >= MOCK_HIT_RATE) {
+    return { detections: [], summary: `${source}: no reference persons detected in scene.` };
+  }
+
+  const person = people[seed % people.length];
+  const match = MOCK_MATCHES[(seed >>> 8) % MOCK_MATCHES.length];
+  const detection: Detection = {
+    personId: person.id,
+    confidence: match.confidence,
+    explanation: match.explanation,
+    boundingBox: match.box,
+  };
+  return { detections: [detection], summary: `${source}: matched ${person.name}.` };
+};
+
+// Fixture similarity of a portrait to one reference person; uploading one of the case's own photos identifies it
+const mockSimilarity = (portrait: string, person: Pick<Person, 'id' | 'imageUrl' | 'images'>): IdentityCandidate => {
+  const samePhoto = person.imageUrl === portrait || person.images.includes(portrait);
+  const similarity = samePhoto
+    ? MOCK_SAME_PHOTO_SIMILARITY
+    : ((hash(portrait) ^ hash(person.imageUrl)) >>> 0) % MOCK_MAX_UNRELATED_SIMILARITY;
+  const note = MOCK_SIMILARITY_NOTES.find(n => similarity >= n.min) || MOCK_SIMILARITY_NOTES[MOCK_SIMILARITY_NOTES.length - 1];
+  return { personId: person.id, similarity, explanation: note.explanation };
+};
+
+export const mockIdentify = (
+  people: Pick<Person, 'id' | 'imageUrl' | 'images'>[],
+  portrait: string,
+  source: string
+): { candidates: IdentityCandidate[]; summary: string } => ({
+  candidates: people.map(person => mockSimilarity(portrait, person)),
+  summary: `${source}: compared portrait with ${people.length} reference persons.`,
+});
+
+const delay = () => new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+
+/**
+ * Offline provider for development and demos. Answers come from fixtures,
+ * picked deterministically from a hash of the input images.
+ */
+export const mockProvider: RecognitionProvider = {
+  id: 'mock',
+  label: 'Mock Vision (offline)',
+
+  async analyzePersonImage(base64Image) {
+    await delay();
+    return mockDescription(base64Image);
+  },
+
+  async scanCrowd(people, crowdSceneBase64) {
+    await delay();
+    return { ...mockScan(people, crowdSceneBase64, 'Mock'), issues: [] };
+  },
+
+  async identifyFace(people, portraitBase64) {
+    await delay();
+    return { ...mockIdentify(people, portraitBase64, 'Mock'), issues: [] };
+  },
+};
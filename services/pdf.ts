@@ -0,0 +1,216 @@
+// Minimal PDF writer for printable case documents: text in the standard
+// Helvetica faces, filled/stroked rectangles, lines and JPEG images. Layout
+// coordinates are in points from the TOP-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold';
+
+// Baseline JPEG (what canvas.toDataURL('image/jpeg') produces)
+export interface PdfImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface TextStyle {
+  size: number;
+  font?: PdfFont;
+  color?: string; // #rrggbb
+}
+
+export interface ShapeStyle {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Advance widths (1/1000 em) for ASCII 32-126, from the standard Helvetica AFM files
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+// Maps text onto single-byte WinAnsi codes; anything else prints as '?'
+const toWinAnsi = (text: string) => Array.from(text).map(char => {
+  const code = char.charCodeAt(0);
+  if (WIN_ANSI[char]) return String.fromCharCode(WIN_ANSI[char]);
+  if (code === 0x2192) return '->';
+  if (code < 0x20) return ' ';
+  return code <= 0x7e || (code >= 0xa0 && code <= 0xff) ? char : '?';
+}).join('');
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/[\\()]/g, c => `\\${c}`);
+
+const rgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff].map(c => (c / 255).toFixed(3)).join(' ');
+};
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+export const textWidth = (text: string, size: number, font: PdfFont = 'regular') =>
+  Array.from(toWinAnsi(text)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : 556);
+  }, 0) * size / 1000;
+
+/**
+ * Greedy word wrap to `maxWidth`. Explicit newlines are kept; a single word
+ * wider than the line is broken by character.
+ */
+export const wrapText = (text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] =>
+  text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, size, font) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+    return lines;
+  });
+
+export interface PdfPage {
+  readonly width: number;
+  readonly height: number;
+  text(text: string, x: number, y: number, style: TextStyle): void;
+  rect(x: number, y: number, width: number, height: number, style: ShapeStyle): void;
+  line(x1: number, y1: number, x2: number, y2: number, style: { color?: string; width?: number }): void;
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void;
+}
+
+export interface PdfDocument {
+  addPage(): PdfPage;
+  readonly pages: PdfPage[];
+  toBlob(): Blob;
+}
+
+export const createPdfDocument = (size = A4): PdfDocument => {
+  const pages: { page: PdfPage; ops: string[]; images: Set<PdfImage> }[] = [];
+  const imageIds = new Map<PdfImage, number>();
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    const images = new Set<PdfImage>();
+    // PDF's origin is bottom-left; flip y so callers can lay out top-down
+    const flip = (y: number) => size.height - y;
+
+    const page: PdfPage = {
+      width: size.width,
+      height: size.height,
+      // `y` is the text baseline
+      text(text, x, y, { size: fontSize, font = 'regular', color = '#000000' }) {
+        ops.push(`BT /${FONT_NAMES[font]} ${num(fontSize)} Tf ${rgb(color)} rg ${num(x)} ${num(flip(y))} Td (${escapeText(text)}) Tj ET`);
+      },
+      rect(x, y, width, height, { fill, stroke, lineWidth = 1 }) {
+        if (!fill && !stroke) return;
+        const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+        ops.push(`q ${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w ` : ''}${num(x)} ${num(flip(y + height))} ${num(width)} ${num(height)} re ${paint} Q`);
+      },
+      line(x1, y1, x2, y2, { color = '#000000', width = 1 }) {
+        ops.push(`q ${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(flip(y1))} m ${num(x2)} ${num(flip(y2))} l S Q`);
+      },
+      image(image, x, y, width, height) {
+        if (!imageIds.has(image)) imageIds.set(image, imageIds.size + 1);
+        images.add(image);
+        ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(flip(y + height))} cm /Im${imageIds.get(image)} Do Q`);
+      },
+    };
+    pages.push({ page, ops, images });
+    return page;
+  };
+
+  const toBlob = () => {
+    const encoder = new TextEncoder();
+    // Content streams are single-byte WinAnsi, so encode them char-for-byte rather than as UTF-8
+    const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+    const objects: Uint8Array[][] = [];
+    const reserve = () => objects.push([]); // Returns the new object's number
+    const define = (id: number, ...parts: (string | Uint8Array)[]) => {
+      objects[id - 1] = parts.map(p => (typeof p === 'string' ? encoder.encode(p) : p));
+    };
+    const stream = (id: number, dict: string, data: Uint8Array) =>
+      define(id, `<< ${dict} /Length ${data.length} >>\nstream\n`, data, '\nendstream');
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontIds = { regular: reserve(), bold: reserve() };
+    define(fontIds.regular, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    define(fontIds.bold, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const imageObjects = new Map<PdfImage, number>();
+    imageIds.forEach((_, image) => {
+      const id = reserve();
+      imageObjects.set(image, id);
+      stream(id, `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`, image.bytes);
+    });
+
+    const pageIds = pages.map(({ ops, images }) => {
+      const contentId = reserve();
+      stream(contentId, '', latin1(ops.join('\n')));
+      const xobjects = Array.from(images).map(image => `/Im${imageIds.get(image)} ${imageObjects.get(image)} 0 R`).join(' ');
+      const pageId = reserve();
+      define(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(size.width)} ${num(size.height)}] `
+        + `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> /XObject << ${xobjects} >> >> /Contents ${contentId} 0 R >>`);
+      return pageId;
+    });
+
+    define(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    define(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+    const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    let offset = parts[0].length;
+    const offsets = objects.map((body, i) => {
+      const start = offset;
+      const chunk = [encoder.encode(`${i + 1} 0 obj\n`), ...body, encoder.encode('\nendobj\n')];
+      chunk.forEach(p => { parts.push(p); offset += p.length; });
+      return start;
+    });
+
+    const xref = [
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+      ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`),
+      `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${offset}\n%%EOF\n`,
+    ].join('');
+    parts.push(encoder.encode(xref));
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+  };
+
+  return { addPage, get pages() { return pages.map(p => p.page); }, toBlob };
+};
@@ -0,0 +1,174 @@
+import { Person } from "../types";
+import { STORES, isIndexedDbAvailable, openDatabase, withStore as withDbStore } from "./db";
+
+/**
+ * Storage abstraction for the missing-person registry.
+ * App state goes through this so records survive reloads.
+ */
+export interface PersonRepository {
+  getAll(): Promise<Person[]>;
+  get(id: string): Promise<Person | undefined>;
+  put(person: Person): Promise<Person>;
+  // Atomic read-modify-write; resolves undefined when the record doesn't exist.
+  update(id: string, updater: (person: Person) => Person): Promise<Person | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+// --- SCHEMA VERSIONING ---
+
+// Bump this and add a migration below whenever a field is added to Person.
+export const PERSON_SCHEMA_VERSION = 4;
+
+type StoredPerson = Person & { schemaVersion: number };
+
+// Each entry upgrades a record FROM the keyed version to the next one.
+const MIGRATIONS: Record<number, (record: any) => any> = {
+  // v0 -> v1: records written before versioning existed had no reportedAt.
+  0: (record) => ({
+    ...record,
+    status: record.status || 'MISSING',
+    reportedAt: record.reportedAt || new Date(record.lastSeenDate || Date.now()).toISOString(),
+  }),
+  // v1 -> v2: photo gallery and case timeline.
+  1: (record) => ({
+    ...record,
+    images: record.images || [],
+    timeline: record.timeline || [{
+      id: crypto.randomUUID(),
+      type: 'REPORTED',
+      timestamp: record.reportedAt,
+      summary: 'Missing person report filed',
+    }],
+  }),
+  // v2 -> v3: structured from/to on status events (recovered from the summary text).
+  2: (record) => ({
+    ...record,
+    timeline: record.timeline.map((event: any) => {
+      const match = event.type === 'STATUS_CHANGED' && /from (\w+) to (\w+)/.exec(event.summary);
+      return match ? { ...event, fromStatus: match[1], toStatus: match[2] } : event;
+    }),
+  }),
+  // v3 -> v4: optional structured last-seen coordinates. Drop anything malformed.
+  3: (record) => {
+    const point = record.lastSeenCoordinates;
+    const valid = point && Number.isFinite(point.lat) && Number.isFinite(point.lng);
+    return { ...record, lastSeenCoordinates: valid ? point : undefined };
+  },
+};
+
+export const migratePerson = (record: any): Person => {
+  let version: number = record.schemaVersion ?? 0;
+  let current = record;
+
+  while (version < PERSON_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration for Person schema v${version}`);
+    current = migrate(current);
+    version++;
+  }
+
+  const { schemaVersion, ...person } = current;
+  return person as Person;
+};
+
+const toStored = (person: Person): StoredPerson => ({ ...person, schemaVersion: PERSON_SCHEMA_VERSION });
+
+// Newest reports first, matching the order the UI has always shown.
+const sortNewestFirst = (people: Person[]) =>
+  [...people].sort((a, b) => b.reportedAt.localeCompare(a.reportedAt));
+
+// --- IMPLEMENTATIONS ---
+
+export const createIndexedDbPersonRepository = (): PersonRepository => {
+  const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+    withDbStore(STORES.PEOPLE, mode, run);
+
+  return {
+    async getAll() {
+      const records = await withStore('readonly', store => store.getAll());
+      const people = records.map(migratePerson);
+
+      // Write back anything that was migrated so it only happens once.
+      await Promise.all(records.map((record, i) =>
+        record.schemaVersion === PERSON_SCHEMA_VERSION
+          ? null
+          : withStore('readwrite', store => store.put(toStored(people[i])))
+      ));
+
+      return sortNewestFirst(people);
+    },
+    async get(id) {
+      const record = await withStore('readonly', store => store.get(id));
+      return record ? migratePerson(record) : undefined;
+    },
+    async put(person) {
+      await withStore('readwrite', store => store.put(toStored(person)));
+      return person;
+    },
+    async update(id, updater) {
+      const db = await openDatabase();
+      // Single readwrite transaction so concurrent updates can't overwrite each other.
+      return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORES.PEOPLE, 'readwrite');
+        const store = tx.objectStore(STORES.PEOPLE);
+        let updated: Person | undefined;
+
+        const getRequest = store.get(id);
+        getRequest.onsuccess = () => {
+          if (!getRequest.result) return;
+          // An updater that throws (e.g. a forbidden status change) leaves the record untouched
+          try {
+            updated = updater(migratePerson(getRequest.result));
+          } catch (err) {
+            tx.abort();
+            reject(err);
+            return;
+          }
+          store.put(toStored(updated));
+        };
+
+        tx.oncomplete = () => resolve(updated);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('aborted'));
+      });
+    },
+    async delete(id) {
+      await withStore('readwrite', store => store.delete(id));
+    },
+  };
+};
+
+/**
+ * Non-persistent repository. Used in tests and as a fallback where
+ * IndexedDB is unavailable (e.g. some private browsing modes).
+ */
+export const createInMemoryPersonRepository = (seed: Person[] = []): PersonRepository => {
+  const records = new Map<string, StoredPerson>(seed.map(p => [p.id, toStored(p)]));
+
+  return {
+    async getAll() {
+      return sortNewestFirst(Array.from(records.values()).map(migratePerson));
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record ? migratePerson(record) : undefined;
+    },
+    async put(person) {
+      records.set(person.id, toStored(person));
+      return person;
+    },
+    async update(id, updater) {
+      const record = records.get(id);
+      if (!record) return undefined;
+      const updated = updater(migratePerson(record));
+      records.set(id, toStored(updated));
+      return updated;
+    },
+    async delete(id) {
+      records.delete(id);
+    },
+  };
+};
+
+export const createPersonRepository = (): PersonRepository =>
+  isIndexedDbAvailable() ? createIndexedDbPersonRepository() : createInMemoryPersonRepository();
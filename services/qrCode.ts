@@ -0,0 +1,296 @@
+// QR code encoder for case links on printed posters. Byte mode, error
+// correction level M, versions 1-10 (up to 213 bytes), which covers any URL
+// we print. Follows ISO/IEC 18004; see the spec for the meaning of the tables.
+
+export class QrCapacityError extends Error {
+  constructor(length: number) {
+    super(`Text is too long for a QR code (${length} bytes, max ${MAX_BYTES}).`);
+    this.name = 'QrCapacityError';
+  }
+}
+
+const MAX_VERSION = 10;
+const MAX_BYTES = 213;
+
+// Level M, indexed by version - 1
+const ECC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ERROR_CORRECTION_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const FORMAT_LEVEL_M = 0;
+
+// Data + ECC codewords that fit in a symbol of this version
+const rawCodewords = (version: number) => {
+  let bits = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const aligns = Math.floor(version / 7) + 2;
+    bits -= (25 * aligns - 10) * aligns - 55;
+    if (version >= 7) bits -= 36;
+  }
+  return Math.floor(bits / 8);
+};
+
+const dataCodewords = (version: number) =>
+  rawCodewords(version) - ECC_CODEWORDS_PER_BLOCK[version - 1] * ERROR_CORRECTION_BLOCKS[version - 1];
+
+const alignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+};
+
+// --- Reed-Solomon over GF(256), polynomial 0x11D ---
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// --- Encoding ---
+
+const encodeData = (bytes: Uint8Array, version: number) => {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4); // Byte mode
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(b => push(b, 8));
+
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length)); // Terminator
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  return codewords;
+};
+
+// Splits data into blocks, appends each block's ECC and interleaves the result
+const addErrorCorrection = (data: number[], version: number) => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version - 1];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version - 1];
+  const raw = rawCodewords(version);
+  const shortBlocks = blockCount - (raw % blockCount);
+  const shortLength = Math.floor(raw / blockCount);
+  const divisor = rsDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = rsRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0); // Placeholder, skipped when interleaving
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// --- Module placement ---
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+const createGrid = (version: number) => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx, y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+
+  const aligns = alignmentPositions(version);
+  aligns.forEach((cx, i) => aligns.forEach((cy, j) => {
+    // Skip the three that would overlap finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === aligns.length - 1) || (i === aligns.length - 1 && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3), b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+
+  // Format areas are reserved now and filled in once the mask is chosen
+  drawFormat(modules, reserved, 0);
+  return { size, modules, reserved };
+};
+
+const drawFormat = (modules: boolean[][], reserved: boolean[][], mask: number) => {
+  const size = modules.length;
+  const data = (FORMAT_LEVEL_M << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+  set(8, 7, bit(6));
+  set(8, 8, bit(7));
+  set(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+  set(8, size - 8, true); // Always-dark module
+};
+
+// Zigzag placement from the bottom-right, two columns at a time
+const drawCodewords = (modules: boolean[][], reserved: boolean[][], codewords: number[]) => {
+  const size = modules.length;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing pattern
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+        if (reserved[y][x] || i >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+        i++;
+      }
+    }
+  }
+};
+
+const applyMask = (modules: boolean[][], reserved: boolean[][], mask: number) => {
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (!reserved[y][x] && MASKS[mask](x, y)) row[x] = !dark;
+  }));
+};
+
+// Lower is better: penalizes long runs, 2x2 blocks, finder look-alikes and color imbalance
+const penalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map(row => row[x])),
+  ];
+
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) { run++; continue; }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+    const pattern = line.map(d => (d ? '1' : '0')).join('');
+    for (const finder of ['10111010000', '00001011101']) {
+      for (let at = pattern.indexOf(finder); at >= 0; at = pattern.indexOf(finder, at + 1)) score += 40;
+    }
+  });
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+/**
+ * Encodes `text` as the smallest QR symbol that fits. Returns the module
+ * grid, `true` = dark, indexed [row][column]; add a 4-module quiet zone when drawing.
+ */
+export const encodeQr = (text: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= MAX_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) version++;
+  if (version > MAX_VERSION) throw new QrCapacityError(bytes.length);
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+
+  let best: boolean[][] | null = null;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const { modules, reserved } = createGrid(version);
+    drawCodewords(modules, reserved, codewords);
+    applyMask(modules, reserved, mask);
+    drawFormat(modules, reserved, mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      best = modules;
+      bestScore = score;
+    }
+  }
+  return best!;
+};
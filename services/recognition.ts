@@ -0,0 +1,147 @@
+import { Person, Detection, IdentityCandidate } from "../types";
+import { chunk, mapWithConcurrency } from "./batching";
+import { geminiProvider } from "./geminiService";
+import { ValidationIssue, validateIdentifyResult, validateScanResult } from "./validation";
+import { RetryOptions, withRetry } from "./retry";
+import { mockProvider } from "./mockRecognitionProvider";
+
+/**
+ * A face recognition backend. Providers only handle a single bounded
+ * request; batching across the whole directory happens in scanCrowdForBatch.
+ */
+export interface RecognitionProvider {
+  id: RecognitionProviderId;
+  label: string; // Shown in the UI status panels
+  // Biometric description of a single portrait (clothing excluded)
+  analyzePersonImage(base64Image: string): Promise<string>;
+  // Every reference person found in a crowd scene
+  scanCrowd(people: Person[], crowdSceneBase64: string): Promise<BatchScanResult>;
+  // Every reference person scored against one unidentified person's portrait
+  identifyFace(people: Person[], portraitBase64: string): Promise<IdentifyResult>;
+}
+
+export type RecognitionProviderId = 'gemini' | 'mock';
+
+export interface BatchScanOptions {
+  groupSize?: number; // Reference persons per request
+  concurrency?: number; // Requests in flight at once
+}
+
+// Per-call hooks; kept apart from BatchScanOptions, which holds tunable settings.
+export interface CallOptions {
+  onRetry?: RetryOptions['onRetry'];
+  budget?: RetryOptions['budget'];
+}
+
+export const DEFAULT_BATCH_OPTIONS: Required<BatchScanOptions> = {
+  groupSize: 8,
+  concurrency: 2,
+};
+
+export interface BatchScanResult {
+  detections: Detection[]; // Highest confidence first
+  summary: string;
+  issues: ValidationIssue[]; // Problems found (and corrected) in the raw response
+}
+
+export interface IdentifyResult {
+  candidates: IdentityCandidate[]; // Most similar first
+  summary: string;
+  issues: ValidationIssue[];
+}
+
+const PROVIDERS: Record<RecognitionProviderId, RecognitionProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Picks the backend from RECOGNITION_PROVIDER ('gemini' | 'mock').
+ * vite.config.ts fills in 'gemini' when a key is configured for the API
+ * server; otherwise the mock keeps the app working offline.
+ */
+const resolveProvider = (): RecognitionProvider => {
+  const configured = process.env.RECOGNITION_PROVIDER as RecognitionProviderId | undefined;
+  if (configured && PROVIDERS[configured]) return PROVIDERS[configured];
+  if (configured) console.warn(`Unknown RECOGNITION_PROVIDER "${configured}", using default.`);
+  return mockProvider;
+};
+
+export const recognitionProvider = resolveProvider();
+
+/**
+ * Generates a description of a person based on their image.
+ * Transient failures are retried; anything else rejects with a RecognitionError.
+ */
+export const analyzePersonImage = (base64Image: string, callOptions: CallOptions = {}): Promise<string> =>
+  withRetry(() => recognitionProvider.analyzePersonImage(base64Image), callOptions);
+
+/**
+ * BATCH SCAN: Checks a crowd scene against MULTIPLE missing persons.
+ * The reference database is split into bounded groups so each request stays
+ * within size/token limits; group results are merged into one ranked answer.
+ */
+export const scanCrowdForBatch = async (
+  missingPeople: Person[],
+  crowdSceneBase64: string,
+  options: BatchScanOptions = {},
+  callOptions: CallOptions = {}
+): Promise<BatchScanResult> => {
+  if (missingPeople.length === 0) {
+      return { detections: [], summary: "No active missing person records to check against.", issues: [] };
+  }
+
+  const { groupSize, concurrency } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const groups = chunk(missingPeople, groupSize);
+  // Providers are untrusted: each group's output is validated against the IDs sent in that group
+  // A group that still fails after retries fails the whole frame - a partial answer would hide people
+  const results = await mapWithConcurrency(groups, concurrency, group => withRetry(
+      async () => validateScanResult(await recognitionProvider.scanCrowd(group, crowdSceneBase64), group),
+      callOptions
+  ));
+
+  // A person can only be in one group, but keep the best hit per ID defensively
+  const best = new Map<string, Detection>();
+  results.flatMap(r => r.detections).forEach(detection => {
+      const existing = best.get(detection.personId);
+      if (!existing || detection.confidence > existing.confidence) best.set(detection.personId, detection);
+  });
+  const detections = Array.from(best.values()).sort((a, b) => b.confidence - a.confidence);
+
+  const summary = groups.length === 1
+      ? results[0].summary
+      : results.map((r, i) => r.summary && `[Group ${i + 1}] ${r.summary}`).filter(Boolean).join(" ");
+
+  return { detections, summary, issues: results.flatMap(r => r.issues) };
+};
+
+/**
+ * REVERSE LOOKUP: Ranks directory records by how closely they resemble the
+ * portrait of an unidentified person (the inverse of scanCrowdForBatch).
+ * Batched the same way; every group must succeed so nobody is silently left
+ * out of the ranking.
+ */
+export const identifyPerson = async (
+  people: Person[],
+  portraitBase64: string,
+  options: BatchScanOptions = {},
+  callOptions: CallOptions = {}
+): Promise<IdentifyResult> => {
+  if (people.length === 0) {
+      return { candidates: [], summary: "No records with photos to compare against.", issues: [] };
+  }
+
+  const { groupSize, concurrency } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const groups = chunk(people, groupSize);
+  const results = await mapWithConcurrency(groups, concurrency, group => withRetry(
+      async () => validateIdentifyResult(await recognitionProvider.identifyFace(group, portraitBase64), group),
+      callOptions
+  ));
+
+  const candidates = results.flatMap(r => r.candidates).sort((a, b) => b.similarity - a.similarity);
+  const summary = groups.length === 1
+      ? results[0].summary
+      : results.map((r, i) => r.summary && `[Group ${i + 1}] ${r.summary}`).filter(Boolean).join(" ");
+
+  return { candidates, summary, issues: results.flatMap(r => r.issues) };
+};
@@ -0,0 +1,20 @@
+import { Detection, IdentityCandidate, Person } from "../types";
+
+// Request and response shapes of the recognition API (server/api.ts), shared by
+// the server and the browser client so neither imports the other's modules.
+
+// Largest reference group one request may carry; the scan settings clamp their group size to it
+export const MAX_PEOPLE_PER_REQUEST = 50;
+
+// The parts of a case the recognition model needs; the client sends only these
+export type ReferencePerson = Pick<Person, 'id' | 'name' | 'lastSeenClothing' | 'description' | 'imageUrl' | 'images'>;
+
+export interface CrowdScanResponse {
+  detections: Detection[]; // Unvalidated - the client checks them against the IDs it sent
+  summary: string;
+}
+
+export interface IdentifyResponse {
+  candidates: IdentityCandidate[]; // Unvalidated, like CrowdScanResponse.detections
+  summary: string;
+}
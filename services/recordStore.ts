@@ -0,0 +1,42 @@
+import { StoreName, isIndexedDbAvailable, withStore } from "./db";
+
+/**
+ * Minimal keyed collection used for app records that don't need schema
+ * migrations (candidates, sessions, ...). People have their own
+ * repository in personRepository.ts.
+ */
+export interface RecordStore<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(record: T): Promise<T>;
+  delete(id: string): Promise<void>;
+}
+
+export const createIndexedDbRecordStore = <T extends { id: string }>(storeName: StoreName): RecordStore<T> => ({
+  getAll: () => withStore<T[]>(storeName, 'readonly', store => store.getAll()),
+  get: (id) => withStore<T | undefined>(storeName, 'readonly', store => store.get(id)),
+  async put(record) {
+    await withStore(storeName, 'readwrite', store => store.put(record));
+    return record;
+  },
+  async delete(id) {
+    await withStore(storeName, 'readwrite', store => store.delete(id));
+  },
+});
+
+export const createInMemoryRecordStore = <T extends { id: string }>(seed: T[] = []): RecordStore<T> => {
+  const records = new Map<string, T>(seed.map(r => [r.id, r]));
+
+  return {
+    async getAll() { return Array.from(records.values()); },
+    async get(id) { return records.get(id); },
+    async put(record) {
+      records.set(record.id, record);
+      return record;
+    },
+    async delete(id) { records.delete(id); },
+  };
+};
+
+export const createRecordStore = <T extends { id: string }>(storeName: StoreName): RecordStore<T> =>
+  isIndexedDbAvailable() ? createIndexedDbRecordStore<T>(storeName) : createInMemoryRecordStore<T>();
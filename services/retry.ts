@@ -0,0 +1,52 @@
+import { RecognitionError, classifyError } from "./errors";
+import { RequestBudget } from "./batching";
+
+export interface RetryOptions {
+  retries?: number;      // Extra attempts after the first
+  baseDelayMs?: number;  // Delay before the first retry; doubles each time
+  maxDelayMs?: number;
+  timeoutMs?: number;    // Per-attempt limit
+  onRetry?: (error: RecognitionError, attempt: number, delayMs: number) => void;
+  budget?: RequestBudget; // Shared slot each attempt must hold; backoff delays don't hold one
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'onRetry' | 'budget'>> = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  timeoutMs: 45000,
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+export const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new RecognitionError('TIMEOUT', `No response after ${ms / 1000}s`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+/**
+ * Runs `task`, retrying transient failures (quota, timeout, network) with
+ * exponential backoff and jitter. Always rejects with a RecognitionError.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, timeoutMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // The timeout starts once a budget slot is granted - queueing isn't a slow response
+      const attemptOnce = () => withTimeout(task(), timeoutMs);
+      return await (options.budget ? options.budget.run(attemptOnce) : attemptOnce());
+    } catch (raw) {
+      const error = classifyError(raw);
+      if (!error.retryable || attempt >= retries) throw error;
+
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
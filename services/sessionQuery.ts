@@ -0,0 +1,47 @@
+import { CameraSource, Person, ScanSession } from "../types";
+
+export interface SessionQuery {
+  text: string; // Matches source label, camera name, searched people and session ID
+  source: ScanSession['source'] | 'ALL';
+}
+
+export const EMPTY_SESSION_QUERY: SessionQuery = { text: '', source: 'ALL' };
+
+export const SOURCE_LABELS: Record<ScanSession['source'], string> = {
+  image: 'Image',
+  video: 'Video',
+  stream: 'Live',
+};
+
+// Human-readable name of where a session's frames came from
+export const describeSession = (session: ScanSession, cameras: CameraSource[]) => {
+  const camera = session.cameraId ? cameras.find(c => c.id === session.cameraId) : undefined;
+  return session.sourceLabel || camera?.name || `${SOURCE_LABELS[session.source]} scan`;
+};
+
+/**
+ * Filters scan history, newest first. Text search also covers the names of
+ * the people a session searched for, so "who was looked for when" is answerable.
+ */
+export const querySessions = (
+  sessions: ScanSession[],
+  query: SessionQuery,
+  people: Person[],
+  cameras: CameraSource[]
+): ScanSession[] => {
+  const text = query.text.trim().toLowerCase();
+  const names = new Map(people.map(p => [p.id, p.name.toLowerCase()]));
+
+  return sessions
+    .filter(session => query.source === 'ALL' || session.source === query.source)
+    .filter(session => {
+      if (!text) return true;
+      const haystack = [
+        session.id,
+        describeSession(session, cameras),
+        ...(session.referenceIds || []).map(id => names.get(id) || ''),
+      ].join('\n').toLowerCase();
+      return haystack.includes(text);
+    })
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
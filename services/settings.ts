@@ -0,0 +1,29 @@
+import { STORES } from "./db";
+import { createRecordStore } from "./recordStore";
+
+// App-wide settings, stored as one record per settings group.
+interface SettingsRecord {
+  id: string;
+  value: unknown;
+}
+
+const settingsStore = createRecordStore<SettingsRecord>(STORES.SETTINGS);
+
+export const SETTINGS_KEYS = {
+  MATCH_POLICY: 'matchPolicy',
+  POSTER: 'poster',
+} as const;
+
+/**
+ * Reads a settings group. Stored values are layered over `defaults`, so
+ * fields added in later versions pick up their default.
+ */
+export const loadSettings = async <T extends object>(key: string, defaults: T): Promise<T> => {
+  const record = await settingsStore.get(key);
+  return record ? { ...defaults, ...(record.value as Partial<T>) } : defaults;
+};
+
+export const saveSettings = async <T extends object>(key: string, value: T): Promise<T> => {
+  await settingsStore.put({ id: key, value });
+  return value;
+};
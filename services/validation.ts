@@ -0,0 +1,165 @@
+import { Person, Detection, IdentityCandidate } from "../types";
+import { BatchScanResult, IdentifyResult } from "./recognition";
+import { RecognitionError } from "./errors";
+
+export type ValidationIssueCode =
+  | 'INVALID_DETECTION'  // Entry isn't an object / lacks a usable confidence (or similarity)
+  | 'UNKNOWN_PERSON_ID'  // personId not in the reference set that was sent
+  | 'DUPLICATE_PERSON_ID'
+  | 'INVALID_BOX'        // Box dropped: wrong length, non-numeric or zero-area
+  | 'BOX_NORMALIZED'     // Box kept but clamped to 0-1000 and/or reordered
+  | 'CONFIDENCE_CLAMPED'; // Also used for identify similarity scores
+
+// A non-fatal problem: the offending detection (or part of it) was dropped or fixed.
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  message: string;
+  personId?: string;
+}
+
+/**
+ * Thrown when a response is unusable as a whole (not JSON, not an object,
+ * detections not a list). Per-detection problems become ValidationIssues instead.
+ */
+export class ResponseValidationError extends RecognitionError {
+  constructor(message: string, public readonly raw?: unknown) {
+    super('INVALID_RESPONSE', message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+export const parseJsonResponse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ResponseValidationError("AI response is not valid JSON", text);
+  }
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Returns a usable [ymin, xmin, ymax, xmax] box on the 0-1000 scale, or null
+ * when the input can't be salvaged. `normalized` is set if anything was fixed.
+ */
+export const normalizeBox = (box: unknown): { box: Detection['boundingBox'] | null; normalized: boolean } => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(isFiniteNumber)) {
+    return { box: null, normalized: false };
+  }
+
+  const [y1, x1, y2, x2] = box.map(v => Math.round(clamp(v, 0, 1000)));
+  const fixed: [number, number, number, number] = [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+
+  if (fixed[0] === fixed[2] || fixed[1] === fixed[3]) return { box: null, normalized: false };
+  return { box: fixed, normalized: fixed.some((v, i) => v !== box[i]) };
+};
+
+// A provider response must be an object with a list under `field`; anything else is unusable
+const responseEntries = (raw: unknown, field: 'detections' | 'candidates', listName: string): { entries: unknown[]; summary: string } => {
+  if (!raw || typeof raw !== 'object') {
+    throw new ResponseValidationError("AI response is not an object", raw);
+  }
+  const { [field]: entries, summary } = raw as Record<string, unknown>;
+  if (!Array.isArray(entries)) {
+    throw new ResponseValidationError(`AI response has no ${listName} list`, raw);
+  }
+  return { entries, summary: typeof summary === 'string' ? summary : '' };
+};
+
+interface EntryCheck {
+  noun: 'detection' | 'candidate'; // For issue messages
+  scoreField: 'confidence' | 'similarity';
+}
+
+/**
+ * The per-entry checks scan and identify results share: each entry needs a
+ * numeric score and a person ID from the reference set, at most once per
+ * person. Passing entries go to `build` with the score clamped to 0-100;
+ * everything dropped or fixed is recorded in `issues`.
+ */
+const checkEntries = <T>(
+  entries: unknown[],
+  references: Person[],
+  { noun, scoreField }: EntryCheck,
+  issues: ValidationIssue[],
+  build: (entry: any, personId: string, score: number) => T
+): T[] => {
+  const knownIds = new Set(references.map(p => p.id));
+  const seen = new Set<string>();
+  const label = noun[0].toUpperCase() + noun.slice(1);
+  const scoreLabel = scoreField[0].toUpperCase() + scoreField.slice(1);
+  const results: T[] = [];
+
+  entries.forEach((entry: any, index) => {
+    if (!entry || typeof entry !== 'object' || !isFiniteNumber(entry[scoreField])) {
+      issues.push({ code: 'INVALID_DETECTION', message: `${label} #${index + 1} is malformed and was discarded` });
+      return;
+    }
+
+    const personId = String(entry.personId ?? '');
+    if (!knownIds.has(personId)) {
+      issues.push({ code: 'UNKNOWN_PERSON_ID', message: `Unknown person ID "${personId}" was discarded`, personId });
+      return;
+    }
+    if (seen.has(personId)) {
+      issues.push({ code: 'DUPLICATE_PERSON_ID', message: `Duplicate ${noun} for ${personId} was discarded`, personId });
+      return;
+    }
+    seen.add(personId);
+
+    const score = Math.round(clamp(entry[scoreField], 0, 100));
+    if (score !== entry[scoreField]) {
+      issues.push({ code: 'CONFIDENCE_CLAMPED', message: `${scoreLabel} ${entry[scoreField]} normalized to ${score}`, personId });
+    }
+
+    results.push(build(entry, personId, score));
+  });
+
+  return results;
+};
+
+const explanationOf = (entry: any) => typeof entry.explanation === 'string' ? entry.explanation : '';
+
+/**
+ * Checks a provider's scan output against the reference set it was given.
+ * Bad entries are dropped or repaired and reported as issues; structural
+ * failures throw ResponseValidationError.
+ */
+export const validateScanResult = (raw: unknown, references: Person[]): BatchScanResult => {
+  const { entries, summary } = responseEntries(raw, 'detections', 'detection');
+  const issues: ValidationIssue[] = [];
+
+  const detections = checkEntries(entries, references, { noun: 'detection', scoreField: 'confidence' }, issues, (entry, personId, confidence): Detection => {
+    let boundingBox: Detection['boundingBox'];
+    if (entry.boundingBox !== undefined && entry.boundingBox !== null) {
+      const { box, normalized } = normalizeBox(entry.boundingBox);
+      if (!box) {
+        issues.push({ code: 'INVALID_BOX', message: `Invalid bounding box for ${personId} was dropped`, personId });
+      } else {
+        if (normalized) issues.push({ code: 'BOX_NORMALIZED', message: `Bounding box for ${personId} was clamped to frame`, personId });
+        boundingBox = box;
+      }
+    }
+    return { personId, confidence, explanation: explanationOf(entry), boundingBox };
+  });
+
+  return { detections: detections.sort((a, b) => b.confidence - a.confidence), summary, issues };
+};
+
+/**
+ * Checks a provider's identify ranking against the reference set it was
+ * given, like validateScanResult does for crowd scans. References the
+ * provider left out are simply not ranked.
+ */
+export const validateIdentifyResult = (raw: unknown, references: Person[]): IdentifyResult => {
+  const { entries, summary } = responseEntries(raw, 'candidates', 'candidates');
+  const issues: ValidationIssue[] = [];
+
+  const candidates = checkEntries(entries, references, { noun: 'candidate', scoreField: 'similarity' }, issues,
+    (entry, personId, similarity): IdentityCandidate => ({ personId, similarity, explanation: explanationOf(entry) }));
+
+  return { candidates: candidates.sort((a, b) => b.similarity - a.similarity), summary, issues };
+};
@@ -0,0 +1,72 @@
+// Which timestamps of recorded footage get sent for analysis.
+
+export type SamplingStrategy =
+  | 'FIXED'           // Every `intervalSec`
+  | 'SCENE_CUT'       // Probe locally every `probeSec`, analyze only when the scene changed
+  | 'COARSE_TO_FINE'; // Every `intervalSec`, then densely around moderate-confidence hits
+
+export interface SamplingOptions {
+  strategy: SamplingStrategy;
+  intervalSec: number;        // FIXED step / COARSE_TO_FINE coarse step
+  probeSec: number;           // SCENE_CUT local probe step (no AI call)
+  sceneSensitivity: number;   // SCENE_CUT change sensitivity, 0-100 (see frames.ts)
+  maxGapSec: number;          // SCENE_CUT: analyze at least this often on a static scene
+  refineStepSec: number;      // COARSE_TO_FINE dense step
+  refineMinConfidence: number; // Hits from here up to the acceptance threshold trigger refinement
+}
+
+export const DEFAULT_SAMPLING_OPTIONS: SamplingOptions = {
+  strategy: 'FIXED',
+  intervalSec: 2,
+  probeSec: 0.5,
+  sceneSensitivity: 40,
+  maxGapSec: 10,
+  refineStepSec: 0.5,
+  refineMinConfidence: 40,
+};
+
+export const SAMPLING_LABELS: Record<SamplingStrategy, string> = {
+  FIXED: 'Fixed Interval',
+  SCENE_CUT: 'Scene Cuts',
+  COARSE_TO_FINE: 'Coarse to Fine',
+};
+
+// Keeps generated times on a 0.1s grid so repeated additions don't drift (2.9999...)
+const roundTime = (seconds: number) => Math.round(seconds * 10) / 10;
+
+// Evenly spaced timestamps over the footage, starting at 0. Footage without a
+// finite length (a live stream) has none.
+export const sampleTimes = (durationSec: number, stepSec: number): number[] => {
+  if (!Number.isFinite(durationSec)) return [];
+  const step = Math.max(0.1, stepSec);
+  const times: number[] = [];
+  for (let i = 0; i * step < durationSec; i++) times.push(roundTime(i * step));
+  return times;
+};
+
+/**
+ * Dense timestamps between a coarse sample and its neighbours (exclusive),
+ * skipping anything already analyzed.
+ */
+export const refinementTimes = (
+  hitSec: number,
+  durationSec: number,
+  options: SamplingOptions,
+  analyzed: Set<number>
+): number[] => {
+  const from = Math.max(0, hitSec - options.intervalSec);
+  const to = Math.min(durationSec, hitSec + options.intervalSec);
+  const times: number[] = [];
+  for (let t = roundTime(from + options.refineStepSec); t < to; t = roundTime(t + options.refineStepSec)) {
+    if (!analyzed.has(t)) times.push(t);
+  }
+  return times;
+};
+
+// mm:ss label for a position in the footage, with tenths for sub-second samples
+export const formatVideoTime = (seconds: number) => {
+  const time = roundTime(seconds);
+  const label = new Date(Math.floor(time) * 1000).toISOString().substr(14, 5);
+  const tenths = Math.round((time % 1) * 10);
+  return tenths === 0 ? label : `${label}.${tenths}`;
+};
@@ -1,28 +1,193 @@
 
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Lifecycle and allowed transitions are defined in services/caseStatus.ts
+export type CaseStatus = 'MISSING' | 'SIGHTED' | 'FOUND' | 'CLOSED';
+
 export interface Person {
   id: string;
   name: string;
   age: string;
   lastSeenLocation: string;
+  lastSeenCoordinates?: GeoPoint; // Structured point for the map, when known
   lastSeenDate: string;
   lastSeenClothing: string; // New field for user-reported clothing
   description: string; // Biometric description (AI generated, excluding clothes)
   imageUrl: string; // Base64 or URL
-  status: 'MISSING' | 'FOUND' | 'SIGHTED';
+  images: string[]; // Additional reference photos beyond the primary imageUrl
+  status: CaseStatus; // Changed only through transitionStatus
+  reportedAt: string; // ISO timestamp the report was filed
+  timeline: CaseEvent[]; // Chronological case history
+}
+
+export type UserRole = 'REPORTER' | 'OPERATOR' | 'INVESTIGATOR' | 'ADMIN';
+
+// A sign-in account. Permissions per role are defined in services/auth.ts.
+export interface UserAccount {
+  id: string;
+  username: string; // Lowercase, unique
+  displayName: string;
+  role: UserRole;
+  passwordHash: string; // PBKDF2-SHA256, hex
+  passwordSalt: string; // Hex
+  createdAt: string; // ISO
+  disabled?: boolean;
+  sessionToken?: string; // Issued at sign-in; a tab restores its session only while this matches
+}
+
+// Who made a change. The name is copied so history still reads after an account is renamed.
+export interface ActorStamp {
+  userId: string;
+  name: string;
+}
+
+export type CaseEventType = 'REPORTED' | 'EDITED' | 'PHOTO_ADDED' | 'SCAN_HIT' | 'STATUS_CHANGED';
+
+export interface CaseEvent {
+  id: string;
+  type: CaseEventType;
+  timestamp: string; // ISO
+  summary: string;
+  details?: string; // For STATUS_CHANGED, the reason given
+  fromStatus?: Person['status']; // STATUS_CHANGED events only
+  toStatus?: Person['status'];
+  actor?: ActorStamp; // Unset on events recorded before accounts existed
+}
+
+// One registered person located in a scanned frame.
+export interface Detection {
+  personId: string;
+  confidence: number; // 0-100
+  explanation: string;
+  boundingBox?: [number, number, number, number]; // [ymin, xmin, ymax, xmax] normalized 0-1000
+}
+
+// How closely one registered person resembles a portrait of an unidentified person.
+export interface IdentityCandidate {
+  personId: string;
+  similarity: number; // 0-100
+  explanation: string;
+}
+
+// A detection at a specific point in uploaded footage.
+export interface VideoSighting extends Detection {
+  id: string;
+  videoTime: number; // Seconds from the start of the video
 }
 
 export interface MatchResult {
   found: boolean;
-  personId?: string; // ID of the matched person in a batch scan
-  confidence: number;
+  detections: Detection[]; // Every match in the frame, highest confidence first
   description: string;
   timestamp: string;
   locationContext?: string;
+}
+
+export type CandidateStatus = 'PENDING' | 'CONFIRMED' | 'REJECTED';
+
+// How confident the match policy considered a hit (see services/matchPolicy.ts)
+export type MatchTier = 'FLAG' | 'REVIEW';
+
+// An AI hit awaiting operator review before it can change a case's status.
+export interface MatchCandidate {
+  id: string;
+  personId: string;
+  confidence: number;
+  explanation: string;
   boundingBox?: [number, number, number, number]; // [ymin, xmin, ymax, xmax] normalized 0-1000
+  frame: string; // Base64 JPEG of the analyzed frame
+  locationContext: string; // Where in the source the hit occurred (timestamp, "LIVE FEED", ...)
+  sourceLocation?: GeoPoint; // Physical position of the camera/source
+  sourceLabel?: string; // e.g. "Central Station - Gate 3"
+  sessionId?: string; // Scan session that produced the hit
+  tier?: MatchTier; // Unset on hits queued before match policies existed (treated as FLAG)
+  detectedAt: string; // ISO
+  status: CandidateStatus;
+  decidedAt?: string; // ISO
+  decisionNote?: string;
+  raisedBy?: ActorStamp; // User running the scan that produced the hit
+  decidedBy?: ActorStamp;
+}
+
+// Proof saved for one detection: the analyzed frame and a crop of the matched region.
+export interface Evidence {
+  id: string;
+  personId: string;
+  candidateId: string; // Review queue entry raised for the detection
+  sessionId?: string;
+  capturedAt: string; // ISO
+  // The full analyzed frame stays on the review queue entry (MatchCandidate.frame) rather than being copied here
+  crop?: string; // Bounding box region; unset when the AI returned no usable box
+  boundingBox?: [number, number, number, number];
+  confidence: number;
+  locationContext: string;
+  sourceLabel?: string;
+}
+
+// A registered surveillance feed: a local capture device or a network stream.
+export interface CameraSource {
+  id: string;
+  name: string; // Used as the sourceLabel of its sightings
+  kind: 'device' | 'url';
+  deviceId?: string; // MediaDeviceInfo.deviceId, for kind 'device'
+  streamUrl?: string; // Browser-playable (and CORS-enabled) video URL, for kind 'url'
+  location?: GeoPoint;
+  scanIntervalSec: number; // Pause between analyzed frames
+  createdAt: string; // ISO
+  updatedBy?: ActorStamp;
+}
+
+// One run of the Scan page against a media source.
+export interface ScanSession {
+  id: string;
+  source: 'image' | 'video' | 'stream';
+  cameraId?: string; // Set when the source is a registered camera
+  sourceLocation?: GeoPoint;
+  sourceLabel?: string;
+  referenceIds?: string[]; // Person IDs searched for; unset on sessions recorded before audit logging
+  startedAt: string; // ISO
+  endedAt?: string; // ISO, unset while running
+  framesAnalyzed: number;
+  framesWithHits: number;
+  framesSkipped?: number; // Live frames not sent because nothing changed
+  detections: number;
+  startedBy?: ActorStamp;
+}
+
+export type SessionLogKind =
+  | 'INFO'     // Lifecycle and progress messages
+  | 'FRAME'    // A frame was sent for analysis
+  | 'RESULT'   // What the AI returned for a frame
+  | 'ERROR'
+  | 'OPERATOR'; // Stop/restart, review decisions, ...
+
+// One line of a session's audit log. Stored apart from the session so long runs append cheaply.
+export interface SessionLogEntry {
+  id: string;
+  sessionId: string;
+  timestamp: string; // ISO
+  kind: SessionLogKind;
+  message: string;
+  frameLabel?: string; // Position in the source (video time, live cycle, ...)
+  detections?: { personId: string; confidence: number }[];
+  candidateId?: string; // Review queue entry the line refers to
+  actor?: ActorStamp; // User signed in when the line was written
 }
 
 export enum AppView {
+  HOME = 'HOME',
   REPORT = 'REPORT',
   DIRECTORY = 'DIRECTORY',
   SCAN = 'SCAN',
+  IDENTIFY = 'IDENTIFY',
+  CASE_DETAIL = 'CASE_DETAIL',
+  REVIEW = 'REVIEW',
+  MAP = 'MAP',
+  CAMERAS = 'CAMERAS',
+  SESSIONS = 'SESSIONS',
+  SETTINGS = 'SETTINGS',
+  USERS = 'USERS',
 }
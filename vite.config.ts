@@ -4,15 +4,19 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // GEMINI_API_KEY stays on the recognition API server (npm run server); never define it for the client
+    const provider = env.RECOGNITION_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'mock');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.RECOGNITION_SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.RECOGNITION_PROVIDER': JSON.stringify(provider)
       },
       resolve: {
         alias: {